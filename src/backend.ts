@@ -3,7 +3,7 @@ import { Event, EventHint, Options, Severity, Transport } from "@sentry/types";
 import { addExceptionMechanism, SyncPromise } from '@sentry/utils';
 
 import { eventFromString, eventFromUnknownInput } from './eventbuilder';
-import { XHRTransport } from "./transports/index";
+import { EnvelopeTransport, MiniappTransportOptions, OfflineQueueOptions, XHRTransport } from "./transports/index";
 
 /**
  * Configuration options for the Sentry Miniapp SDK.
@@ -24,6 +24,28 @@ export interface MiniappOptions extends Options {
    * By default, all errors will be sent.
    */
   whitelistUrls?: Array<string | RegExp>;
+
+  /**
+   * Persist events which could not be sent (e.g. no network) to the mini program storage
+   * and replay them on next launch or when the network is back.
+   * 将发送失败的事件缓存到本地存储，并在下次启动或网络恢复时重新发送。默认关闭。
+   */
+  offline?: boolean | OfflineQueueOptions;
+
+  /**
+   * Send events through the envelope endpoint instead of the legacy store endpoint.
+   * Required to send sessions, attachments, user feedback and client reports.
+   * 使用 envelope 接口代替旧的 store 接口上报，开启后才能上报 session、附件、用户反馈等数据。默认关闭。
+   */
+  envelope?: boolean;
+
+  /**
+   * A first-party URL (e.g. on your own backend domain) events are posted to instead of the Sentry host.
+   * The DSN is carried inside the envelope headers so the backend can forward them to Sentry.
+   * Implies {@link MiniappOptions.envelope}.
+   * 小程序只能请求后台配置的合法域名，设置后事件将以 envelope 格式发送到该地址，由服务端转发给 Sentry。
+   */
+  tunnel?: string;
 }
 
 /**
@@ -40,15 +62,22 @@ export class MiniappBackend extends BaseBackend<MiniappOptions> {
       return super._setupTransport();
     }
 
-    const transportOptions = {
+    const transportOptions: MiniappTransportOptions = {
       ...this._options.transportOptions,
-      dsn: this._options.dsn
+      dsn: this._options.dsn,
+      offline: this._options.offline,
+      tunnel: this._options.tunnel,
+      _metadata: this._options._metadata
     };
 
     if (this._options.transport) {
       return new this._options.transport(transportOptions);
     }
 
+    if (this._options.envelope || this._options.tunnel) {
+      return new EnvelopeTransport(transportOptions);
+    }
+
     return new XHRTransport(transportOptions);
   }
 
@@ -1,8 +1,9 @@
-import { API, BaseClient, Scope } from "@sentry/core";
-import { DsnLike, Event, EventHint } from "@sentry/types";
+import { addGlobalEventProcessor, API, BaseClient, getCurrentHub, Scope } from "@sentry/core";
+import { DsnLike, Event, EventHint, Integration, Transport } from "@sentry/types";
 import { getGlobalObject, logger } from "@sentry/utils";
 
 import { MiniappBackend, MiniappOptions } from "./backend";
+import { Attachment, EnvelopeTransport, UserFeedback } from "./transports/index";
 import { SDK_NAME, SDK_VERSION } from "./version";
 
 /**
@@ -32,6 +33,12 @@ export interface ReportDialogOptions {
   onLoad?(): void;
 }
 
+/**
+ * Names of the integrations torn down by a closed client. `@sentry/core` installs an integration once per name,
+ * the next client calls `setupOnce()` of these again.
+ */
+const tornDownIntegrations: { [name: string]: boolean } = {};
+
 /**
  * The Sentry Miniapp SDK Client.
  *
@@ -48,6 +55,124 @@ export class MiniappClient extends BaseClient<MiniappBackend, MiniappOptions> {
     super(MiniappBackend, options);
   }
 
+  /**
+   * Flushes pending events, then restores the APIs and globals patched by the integrations
+   * and removes the platform listeners (e.g. `wx.onError`) of the integrations and the transport,
+   * see `teardown()` of the integrations and of {@link BaseTransport}.
+   * 关闭后再次调用 init() 会重新安装集成。
+   *
+   * @inheritDoc
+   */
+  public close(timeout?: number): PromiseLike<boolean> {
+    return super.close(timeout).then((result: boolean) => {
+      this._teardownIntegrations();
+      this._teardownTransport();
+      return result;
+    });
+  }
+
+  /**
+   * Sends user feedback for a previously captured event, requires the `envelope` or `tunnel` option.
+   * 上报用户对某个事件的反馈，需开启 `envelope` 或 `tunnel` 选项。
+   *
+   * @param feedback The feedback, `event_id` identifies the event it belongs to.
+   */
+  public captureUserFeedback(feedback: UserFeedback): void {
+    const transport = this._getEnvelopeTransport("captureUserFeedback");
+    if (transport) {
+      this._process(transport.sendUserFeedback(feedback).then(null, (reason: any) => {
+        logger.error(`Error while sending user feedback: ${JSON.stringify(reason)}`);
+      }));
+    }
+  }
+
+  /**
+   * Sends attachments for a previously captured event, requires the `envelope` or `tunnel` option.
+   * 为某个事件上报附件（仅支持文本内容），需开启 `envelope` 或 `tunnel` 选项。
+   *
+   * @param attachments The attachments to send.
+   * @param eventId The id of the event the attachments belong to, defaults to the last captured event.
+   */
+  public captureAttachments(attachments: Attachment[], eventId?: string): void {
+    const id = eventId || getCurrentHub().lastEventId();
+    if (!id) {
+      logger.error("Missing `eventId` in captureAttachments call");
+      return;
+    }
+
+    const transport = this._getEnvelopeTransport("captureAttachments");
+    if (transport && attachments.length) {
+      this._process(transport.sendAttachments(id, attachments).then(null, (reason: any) => {
+        logger.error(`Error while sending attachments: ${JSON.stringify(reason)}`);
+      }));
+    }
+  }
+
+  /**
+   * Sets up the integrations, including those torn down by a previously closed client.
+   *
+   * @inheritDoc
+   */
+  public setupIntegrations(): void {
+    super.setupIntegrations();
+    if (!this._isEnabled()) {
+      return;
+    }
+
+    Object.keys(this._integrations).forEach((name: string) => {
+      if (!tornDownIntegrations[name]) {
+        return;
+      }
+      delete tornDownIntegrations[name];
+      this._integrations[name].setupOnce(addGlobalEventProcessor, getCurrentHub);
+      logger.log(`Integration reinstalled: ${name}`);
+    });
+  }
+
+  /** Returns the transport if it is able to send envelopes, logs why otherwise. */
+  private _getEnvelopeTransport(method: string): EnvelopeTransport | undefined {
+    if (!this._isEnabled()) {
+      logger.warn(`Trying to call ${method} with Sentry Client is disabled`);
+      return undefined;
+    }
+
+    const transport = this._getBackend().getTransport();
+    if (!(transport instanceof EnvelopeTransport)) {
+      logger.warn(`${method} requires the envelope or tunnel option`);
+      return undefined;
+    }
+    return transport;
+  }
+
+  /** Calls `teardown()` of every installed integration implementing it. */
+  private _teardownIntegrations(): void {
+    Object.keys(this._integrations).forEach((name: string) => {
+      const integration = this._integrations[name] as Integration & { teardown?(): void };
+      if (typeof integration.teardown !== "function") {
+        return;
+      }
+      try {
+        integration.teardown();
+        tornDownIntegrations[name] = true;
+      } catch (e) {
+        logger.warn(`sentry-miniapp fail to teardown integration ${name}: ${e}`);
+      }
+    });
+  }
+
+  /** Calls `teardown()` of the transport if it implements it, e.g. {@link BaseTransport}. */
+  private _teardownTransport(): void {
+    const transport = this._getBackend().getTransport() as Transport & { teardown?(): void };
+    if (typeof transport.teardown !== "function") {
+      return;
+    }
+    try {
+      transport.teardown();
+    } catch (e) {
+      logger.warn(`sentry-miniapp fail to teardown transport: ${e}`);
+    }
+  }
+
   /**
    * @inheritDoc
    */
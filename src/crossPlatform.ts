@@ -17,6 +17,16 @@ interface SDK {
   onPageNotFound?: Function;
   onMemoryWarning?: Function;
   getLaunchOptionsSync?: Function;
+  onAppShow?: Function;
+  onAppHide?: Function;
+  onNetworkStatusChange?: Function;
+  getPerformance?: Function;
+  offError?: Function;
+  offUnhandledRejection?: Function;
+  offPageNotFound?: Function;
+  offMemoryWarning?: Function;
+  offAppShow?: Function;
+  offAppHide?: Function;
 }
 
 /**
@@ -96,3 +106,157 @@ const sdk = getSDK();
 const appName = getAppName();
 
 export { sdk, appName };
+
+/**
+ * 跨平台统一的请求参数
+ */
+export interface RequestOptions {
+  url: string;
+  method?: string;
+  data?: any;
+  headers?: { [key: string]: string };
+  dataType?: string;
+  timeout?: number;
+  success?(res: RequestResponse): void;
+  fail?(error: RequestError): void;
+  complete?(): void;
+}
+
+/**
+ * 跨平台统一的请求响应
+ */
+export interface RequestResponse {
+  statusCode: number;
+  headers: { [key: string]: string };
+  data: any;
+}
+
+/**
+ * 跨平台统一的请求错误
+ */
+export interface RequestError {
+  errMsg: string;
+  errCode?: number | string;
+}
+
+/**
+ * 支付宝、钉钉小程序的请求参数使用 headers 字段，响应使用 status、headers 字段；
+ * 其余平台使用 header 字段，响应使用 statusCode、header 字段。
+ */
+const usesHeadersField = appName === "alipay" || appName === "dingtalk";
+
+/**
+ * 当前平台的请求方法名，钉钉小程序为 httpRequest
+ */
+const requestApiName: "request" | "httpRequest" = sdk.request ? "request" : "httpRequest";
+
+/**
+ * 将统一的请求参数转换为当前平台的请求参数
+ */
+const toPlatformRequestOptions = (options: RequestOptions) => {
+  const { headers, success, fail, ...rest } = options;
+  const platformOptions: { [key: string]: any } = {
+    ...rest,
+    [usesHeadersField ? "headers" : "header"]: headers || {},
+  };
+
+  if (success) {
+    platformOptions.success = (res: any) => success(normalizeRequestResponse(res));
+  }
+  if (fail) {
+    platformOptions.fail = (error: any) => fail(normalizeRequestError(error));
+  }
+
+  return platformOptions;
+};
+
+/**
+ * 将当前平台的请求参数转换为统一的请求参数，回调函数保持原样
+ */
+const fromPlatformRequestOptions = (options: any = {}): RequestOptions => {
+  // tslint:disable: no-unsafe-any
+  const { header, headers, ...rest } = options;
+  return {
+    ...rest,
+    headers: headers || header || {},
+  };
+  // tslint:enable: no-unsafe-any
+};
+
+/**
+ * 将当前平台的请求响应转换为统一的请求响应
+ */
+const normalizeRequestResponse = (res: any = {}): RequestResponse => ({
+  // tslint:disable: no-unsafe-any
+  data: res.data,
+  headers: res.header || res.headers || {},
+  statusCode: res.statusCode !== undefined ? res.statusCode : res.status,
+  // tslint:enable: no-unsafe-any
+});
+
+/**
+ * 将当前平台 API 失败回调的参数转换为统一的 `{ errMsg, errCode }`，支付宝、钉钉为 `{ error, errorMessage }`
+ */
+const normalizeApiError = (error: any = {}, apiName: string): RequestError => ({
+  // tslint:disable: no-unsafe-any
+  errCode: error.errCode !== undefined ? error.errCode : error.error,
+  errMsg: error.errMsg || error.errorMessage || `${apiName}:fail`,
+  // tslint:enable: no-unsafe-any
+});
+
+/**
+ * 统一请求失败回调的参数
+ */
+const normalizeRequestError = (error: any = {}): RequestError => normalizeApiError(error, requestApiName);
+
+/**
+ * 返回替换了请求头的当前平台请求参数
+ */
+const withPlatformRequestHeaders = (options: any, headers: { [key: string]: string }) => {
+  // tslint:disable-next-line: no-unsafe-any
+  const { header, headers: _, ...rest } = options;
+  return {
+    ...rest,
+    [usesHeadersField ? "headers" : "header"]: headers,
+  };
+};
+
+/**
+ * 监听平台事件，如 `addListener("Error", callback)` 调用 `wx.onError(callback)`。
+ * 返回取消监听的函数，平台不支持对应的 offXxx 接口时无法取消。
+ */
+const addListener = (eventName: string, callback: Function): (() => void) => {
+  // tslint:disable: no-unsafe-any
+  const target: any = sdk;
+  if (typeof target[`on${eventName}`] !== "function") {
+    // tslint:disable-next-line: no-empty
+    return () => {};
+  }
+
+  target[`on${eventName}`](callback);
+  return () => {
+    if (typeof target[`off${eventName}`] === "function") {
+      target[`off${eventName}`](callback);
+    }
+  };
+  // tslint:enable: no-unsafe-any
+};
+
+/**
+ * 使用统一的请求参数发起请求
+ */
+const request = (options: RequestOptions) =>
+  // tslint:disable-next-line: no-unsafe-any
+  (sdk[requestApiName] as Function)(toPlatformRequestOptions(options));
+
+export {
+  addListener,
+  request,
+  requestApiName,
+  toPlatformRequestOptions,
+  fromPlatformRequestOptions,
+  normalizeApiError,
+  withPlatformRequestHeaders,
+  normalizeRequestResponse,
+  normalizeRequestError,
+};
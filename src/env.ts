@@ -1,11 +1,12 @@
 import { logger } from '@sentry/utils';
 
-declare var wx: any
+import { appName, requestApiName, sdk } from './crossPlatform';
+
 declare function getCurrentPages(): any;
 declare function getApp(params: any): any;
 
-// eslint-disable-next-line
-let minaContext = typeof wx !== 'undefined' ? wx : {};
+// 与 crossPlatform 使用同一个平台对象：wx、my、tt、dd、qq、swan
+let minaContext: any = sdk;
 let systemInfo: any = null;
 let minaApp: any = null;
 
@@ -21,6 +22,21 @@ export function getMinaContext() {
     return minaContext;
 }
 
+/**
+ * 判断平台是否提供某个 API，不读取属性值：读取通过 lazyFill 延迟包装的 API 会触发包装
+ */
+export function hasMinaApi(name: string): boolean {
+    let target = minaContext;
+    while (target) {
+        const descriptor = Object.getOwnPropertyDescriptor(target, name);
+        if (descriptor) {
+            return descriptor.get ? true : typeof descriptor.value === 'function';
+        }
+        target = Object.getPrototypeOf(target);
+    }
+    return false;
+}
+
 export function getMinaApiList() {
     return Object.keys(minaContext).filter((api) => {
         return typeof minaContext[api] === 'function';
@@ -41,13 +57,12 @@ export function getSystemInfo() {
 }
 
 export function supportRequest() {
-    return !!minaContext.request;
+    // 钉钉小程序使用 dd.httpRequest
+    return hasMinaApi(requestApiName);
 }
 
 export function supportNavigations() {
-    const list = ['navigateBack', 'navigateTo', 'redirectTo', 'reLaunch', 'switchTab'].filter((api) => {
-        return !!minaContext[api];
-    });
+    const list = ['navigateBack', 'navigateTo', 'redirectTo', 'reLaunch', 'switchTab'].filter(hasMinaApi);
     if (list.length > 0) {
         return list;
     } else {
@@ -69,6 +84,40 @@ export function getCurrentPage() {
     }
 }
 
+/**
+ * 返回组件所在页面的路由，组件实例上没有 route。
+ * 支付宝、钉钉通过 `this.$page`；微信通过 `getPageId()` 匹配页面栈，或沿 `selectOwnerComponent()` 查找所在页面；
+ * 都无法获取时使用当前页面。
+ */
+export function getComponentPage(component: any) {
+    try {
+        if (component && component.$page && component.$page.route) {
+            return component.$page.route;
+        }
+
+        if (component && typeof component.getPageId === 'function' && typeof getCurrentPages === 'function') {
+            const pageId = component.getPageId();
+            const pages = getCurrentPages();
+            for (let i = pages.length - 1; i >= 0; i--) {
+                if (typeof pages[i].getPageId === 'function' && pages[i].getPageId() === pageId) {
+                    return pages[i].route;
+                }
+            }
+        }
+
+        let owner = component;
+        for (let depth = 0; owner && typeof owner.selectOwnerComponent === 'function' && depth < 20; depth++) {
+            owner = owner.selectOwnerComponent();
+            if (owner && owner.route) {
+                return owner.route;
+            }
+        }
+    } catch (e) {
+        // 取不到所在页面时使用当前页面
+    }
+    return getCurrentPage();
+}
+
 export function getPrevPage(delta: any) {
     try {
         if (typeof getCurrentPages === 'function') {
@@ -109,14 +158,54 @@ export async function getMinaApp() {
 }
 
 export function supportStorage() {
-    const list = ['setStorage', 'getStorageSync'].filter((api) => {
-        return !!minaContext[api];
-    });
-    return list.length === 2;
+    return ['setStorage', 'getStorageSync', 'setStorageSync'].every(hasMinaApi);
+}
+
+// 支付宝、钉钉小程序的同步存储接口使用对象参数，如 my.getStorageSync({ key })
+const usesObjectStorageApi = appName === 'alipay' || appName === 'dingtalk';
+
+export function getStorageSync(key: string) {
+    if (usesObjectStorageApi) {
+        const res = minaContext.getStorageSync({ key });
+        return res && res.data;
+    }
+    return minaContext.getStorageSync(key);
+}
+
+export function setStorageSync(key: string, data: any) {
+    if (usesObjectStorageApi) {
+        return minaContext.setStorageSync({ key, data });
+    }
+    return minaContext.setStorageSync(key, data);
+}
+
+export function removeStorageSync(key: string) {
+    if (usesObjectStorageApi) {
+        return minaContext.removeStorageSync({ key });
+    }
+    return minaContext.removeStorageSync(key);
 }
 
 export function supportLogManager() {
-    return !!minaContext.getLogManager;
+    return hasMinaApi('getLogManager');
+}
+
+export function supportRealtimeLogManager() {
+    return hasMinaApi('getRealtimeLogManager');
+}
+
+/**
+ * 当前平台支持的能力，不支持的能力对应的面包屑、离线缓存等功能不会生效
+ */
+export function getCapabilities() {
+    return {
+        platform: appName,
+        request: supportRequest() ? requestApiName : null,
+        navigation: supportNavigations() || [],
+        appLifeCycle: MINA_APP_LIFE_CYCLE.filter(hasMinaApi),
+        storage: supportStorage(),
+        realtimeLog: supportRealtimeLogManager(),
+    };
 }
 
 export function isWxUnhandledPromiseError(message: any) {
@@ -8,8 +8,10 @@ import {
   isErrorEvent,
   isEvent,
   isPlainObject,
+  normalizeToSize,
 } from '@sentry/utils';
 
+import { normalizeApiError } from './crossPlatform';
 import { eventFromPlainObject, eventFromStacktrace, prepareFramesForEvent } from './parsers';
 import { computeStackTrace } from './tracekit';
 
@@ -44,11 +46,25 @@ export function eventFromUnknownInput(
     addExceptionTypeValue(event, message);
     return event;
   }
+  const platformError = normalizePlatformError(exception);
+  if (platformError) {
+    // An error reported by the platform onError listener, see `normalizePlatformError`
+    event = eventFromStacktrace(computeStackTrace(platformError));
+    return event;
+  }
   if (isError(exception as Error)) {
     // we have a real Error object, do nothing
     event = eventFromStacktrace(computeStackTrace(exception as Error));
     return event;
   }
+  if (isApiError(exception)) {
+    // A failed platform API call, e.g. the rejection of a promisified `wx.getLocation()`
+    event = eventFromApiError(exception);
+    addExceptionMechanism(event, {
+      synthetic: true,
+    });
+    return event;
+  }
   if (isPlainObject(exception) || isEvent(exception)) {
     // If it is plain Object or Event, serialize it manually and extract options
     // This will allow us to group events based on top-level keys
@@ -102,3 +118,149 @@ export function eventFromString(
 
   return event;
 }
+
+/** An error reported by the platform, split into type, message and stack */
+interface PlatformError {
+  name: string;
+  message: string;
+  stack: string;
+}
+
+/** First line of errors reported by WeChat-style platforms, naming where the error happened. */
+const PLATFORM_ERROR_HEADER = /^(MiniProgramError|thirdScriptError|WAServiceMainContext\S*|webviewScriptError|appServiceSDKScriptError|gameThirdScriptError)$/;
+
+/** A line starting the original stack, e.g. `TypeError: Cannot read property 'x' of undefined` */
+const ERROR_TYPE_LINE = /^\s*([A-Za-z_$][\w$]*(?:Error|Exception))(?::\s?(.*))?$/;
+
+/** A line of a V8 (`at fn (file:1:2)`) or JavaScriptCore (`fn@file:1:2`) stack */
+const STACK_FRAME_LINE = /^\s*at\s|@.*:\d+(?::\d+)?\s*$/;
+
+/**
+ * Normalizes the payloads platforms pass to `onError` into type, message and stack:
+ * - WeChat / QQ / ByteDance strings, e.g.
+ *   `"MiniProgramError\nCannot read property 'x' of undefined\nTypeError: Cannot read property 'x' of undefined\n    at ..."`,
+ *   or the older `"thirdScriptError\n<message>;at <page> <method> function\nTypeError: ..."`
+ * - Error objects whose message is such a string
+ * - mini game `{ message, stack }` objects, which are no Error instances
+ * 将各平台 onError 回调中的字符串、对象解析为异常类型、信息和堆栈。
+ * @returns undefined if the input is not an error reported by the platform
+ * @hidden
+ */
+export function normalizePlatformError(payload: unknown): PlatformError | undefined {
+  if (typeof payload === 'string') {
+    return isPlatformErrorString(payload) ? parsePlatformErrorString(payload) : undefined;
+  }
+
+  if (isError(payload as Error)) {
+    const error = payload as Error;
+    return typeof error.message === 'string' && PLATFORM_ERROR_HEADER.test(error.message.split('\n')[0].trim())
+      ? parsePlatformErrorString(error.message)
+      : undefined;
+  }
+
+  if (isPlainObject(payload)) {
+    const { name, message, stack } = payload as { [key: string]: unknown };
+    if (typeof message !== 'string' || typeof stack !== 'string') {
+      return undefined;
+    }
+    const parsed = parsePlatformErrorString(stack);
+    return {
+      message: message || parsed.message,
+      name: typeof name === 'string' && name ? name : parsed.name,
+      stack,
+    };
+  }
+
+  return undefined;
+}
+
+/** JSDoc */
+function isPlatformErrorString(input: string): boolean {
+  const lines = input.split('\n');
+  return PLATFORM_ERROR_HEADER.test(lines[0].trim()) || lines.slice(1).some((line: string) => STACK_FRAME_LINE.test(line));
+}
+
+/** Splits an error string into the original error type, message and the stack following it. */
+function parsePlatformErrorString(input: string): PlatformError {
+  const lines = input.split('\n');
+  const header = PLATFORM_ERROR_HEADER.test(lines[0].trim()) ? (lines.shift() as string).trim() : undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const parts = ERROR_TYPE_LINE.exec(lines[i]);
+    if (parts) {
+      return {
+        message: parts[2] || stripLocation(lines.slice(0, i).join('\n')) || parts[1],
+        name: parts[1],
+        stack: lines.slice(i).join('\n'),
+      };
+    }
+  }
+
+  // no type line, the message is followed by the stack frames if any
+  let messageLines = lines;
+  for (let i = 0; i < lines.length; i++) {
+    if (STACK_FRAME_LINE.test(lines[i])) {
+      messageLines = lines.slice(0, i);
+      break;
+    }
+  }
+  return {
+    message: stripLocation(messageLines.join('\n')) || header || 'Unknown error',
+    name: 'Error',
+    stack: lines.join('\n'),
+  };
+}
+
+/** Removes the `;at <page> <method> function` location WeChat appends to messages. */
+function stripLocation(message: string): string {
+  return message.replace(/;at [^\n]*$/, '').trim();
+}
+
+/** The `errMsg` of failed platform API calls, e.g. `getLocation:fail auth deny` */
+const API_ERROR_MESSAGE = /^([\w.$]+):fail\s*([\s\S]*)$/;
+
+/** Result passed to `fail` callbacks or rejecting promises of platform APIs */
+interface ApiError {
+  [key: string]: unknown;
+  errMsg: string;
+  errCode?: unknown;
+}
+
+/** JSDoc */
+function isApiError(exception: unknown): exception is ApiError {
+  if (!isPlainObject(exception)) {
+    return false;
+  }
+  const { errMsg } = exception as { errMsg?: unknown };
+  return typeof errMsg === 'string' && API_ERROR_MESSAGE.test(errMsg);
+}
+
+/**
+ * Creates an exception typed by the failed API, e.g. `getLocation:fail` with `auth deny` as value,
+ * grouped by API and `errCode` (or the reason if there is none).
+ * 将平台 API 失败的结果 `{ errMsg, errCode }` 转换为以 API 名称为类型的异常，按 API 和错误码聚合。
+ */
+function eventFromApiError(exception: ApiError): Event {
+  const [, api, reason] = API_ERROR_MESSAGE.exec(exception.errMsg) as RegExpExecArray;
+  const { errMsg, errCode } = normalizeApiError(exception, api);
+  const hasCode = errCode !== undefined && errCode !== null && errCode !== '';
+
+  return {
+    exception: {
+      values: [
+        {
+          type: `${api}:fail`,
+          value: reason || errMsg,
+        },
+      ],
+    },
+    extra: {
+      __serialized__: normalizeToSize(exception),
+    },
+    fingerprint: ['mina-api', api, hasCode ? String(errCode) : reason || errMsg],
+    tags: {
+      'mina.api': api,
+      ...(hasCode && { 'mina.errCode': String(errCode) }),
+    },
+  };
+}
@@ -1,10 +1,12 @@
-import { captureException, getCurrentHub, withScope } from '@sentry/core';
+import { API, captureException, getCurrentHub, withScope } from '@sentry/core';
 import { Event as SentryEvent, Mechanism, Scope, WrappedFunction } from '@sentry/types';
-import { addExceptionMechanism, addExceptionTypeValue, htmlTreeAsString, normalize } from '@sentry/utils';
+import { addExceptionMechanism, addExceptionTypeValue, isMatchingPattern, normalize } from '@sentry/utils';
+
+import { MiniappClient } from './client';
 
 const debounceDuration: number = 1000;
-let keypressTimeout: number | undefined;
-let lastCapturedEvent: Event | undefined;
+let inputTimeout: number | undefined;
+let lastCapturedEvent: MinaEvent | undefined;
 let ignoreOnError: number = 0;
 
 /**
@@ -25,9 +27,51 @@ export function ignoreNextOnError(): void {
   });
 }
 
+/**
+ * Whether the exception has already been captured, see {@link markCaptured}.
+ * @hidden
+ */
+export function isCaptured(ex: any): boolean {
+  try {
+    return !!(ex && ex.__sentry_captured__);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Flags an exception captured by `wrap()` or an API failure captured by Breadcrumbs, so it isn't captured again
+ * when it is thrown on. Primitives and frozen objects can't be flagged.
+ * @hidden
+ */
+export function markCaptured(ex: any): void {
+  try {
+    if (ex && typeof ex === 'object') {
+      Object.defineProperty(ex, '__sentry_captured__', { value: true });
+    }
+  } catch (e) {
+    // no-empty
+  }
+}
+
+/**
+ * Checks whether the given URL is the Sentry endpoint or tunnel the SDK sends its events to.
+ * @hidden
+ */
+export function isSentryRequest(url: string): boolean {
+  const client = getCurrentHub().getClient<MiniappClient>();
+  const dsn = client && client.getDsn();
+  const tunnel = client && client.getOptions().tunnel;
+  const filterUrl = tunnel || (dsn && new API(dsn).getBaseApiEndpoint());
+  return !!filterUrl && isMatchingPattern(url, filterUrl);
+}
+
 /**
  * Instruments the given function and sends an event to Sentry every time the
  * function throws an exception.
+ * The exception is thrown on to the platform afterwards, which reports it to onError only,
+ * so the mechanism of wrapped lifecycle and event handlers is `handled: false`.
+ * Outer wrapped functions the exception is thrown on through don't capture it again.
  *
  * @param fn A function to wrap.
  * @returns The wrapped function.
@@ -90,6 +134,11 @@ export function wrap(
       return fn.apply(this, wrappedArguments);
       // tslint:enable:no-unsafe-any
     } catch (ex) {
+      // thrown on through an outer wrapped function, e.g. a page method calling another one
+      if (isCaptured(ex)) {
+        throw ex;
+      }
+      markCaptured(ex);
       ignoreNextOnError();
 
       withScope((scope: Scope) => {
@@ -165,107 +214,111 @@ export function wrap(
   return sentryWrapped;
 }
 
-let debounceTimer: number = 0;
-
 /**
- * Wraps addEventListener to capture UI breadcrumbs
- * @param eventName the event name (e.g. "click")
- * @returns wrapped breadcrumb events handler
+ * Event object passed to handlers bound in templates, e.g. `bindtap`.
  * @hidden
  */
-export function breadcrumbEventHandler(eventName: string, debounce: boolean = false): (event: Event) => void {
-  return (event: Event) => {
-    // reset keypress timeout; e.g. triggering a 'click' after
-    // a 'keypress' will reset the keypress debounce so that a new
-    // set of keypresses can be recorded
-    keypressTimeout = undefined;
-    // It's possible this handler might trigger multiple times for the same
-    // event (e.g. event propagation through node ancestors). Ignore if we've
-    // already captured the event.
-    // tslint:disable-next-line: strict-comparisons
-    if (!event || lastCapturedEvent === event) {
-      return;
-    }
-
-    lastCapturedEvent = event;
-
-    const captureBreadcrumb = () => {
-      let target;
-
-      // Accessing event.target can throw (see getsentry/raven-js#838, #768)
-      try {
-        target = event.target ? htmlTreeAsString(event.target as Node) : htmlTreeAsString((event as unknown) as Node);
-      } catch (e) {
-        target = '<unknown>';
-      }
-
-      if (target.length === 0) {
-        return;
-      }
+export interface MinaEvent {
+  type: string;
+  timeStamp?: number;
+  target?: MinaEventTarget;
+  currentTarget?: MinaEventTarget;
+  detail?: any;
+}
 
-      getCurrentHub().addBreadcrumb(
-        {
-          category: `ui.${eventName}`, // e.g. ui.click, ui.input
-          message: target,
-        },
-        {
-          event,
-          name: eventName,
-        },
-      );
-    };
+/** Component an event has been dispatched to */
+interface MinaEventTarget {
+  id?: string;
+  dataset?: { [key: string]: any };
+}
 
-    if (debounceTimer) {
-      clearTimeout(debounceTimer);
-    }
+/** Maps event types to the name used in the `ui.xxx` breadcrumb category. */
+const UI_EVENT_TYPES: { [type: string]: string } = {
+  change: 'change',
+  confirm: 'confirm',
+  input: 'input',
+  longpress: 'longpress',
+  longtap: 'longpress',
+  submit: 'submit',
+  tap: 'tap',
+};
 
-    if (debounce) {
-      debounceTimer = setTimeout(captureBreadcrumb);
-    } else {
-      captureBreadcrumb();
-    }
-  };
+/**
+ * Checks whether the given handler argument is an event object.
+ * @hidden
+ */
+export function isMinaEvent(event: any): event is MinaEvent {
+  return (
+    !!event &&
+    typeof event === 'object' &&
+    typeof event.type === 'string' &&
+    (typeof event.currentTarget === 'object' || typeof event.target === 'object')
+  );
 }
 
 /**
- * Wraps addEventListener to capture keypress UI events
- * @returns wrapped keypress events handler
+ * Creates a handler capturing UI breadcrumbs for events passed to an event handler
+ * @param handler name of the event handler (e.g. "onTap")
+ * @param filterDataset keys of `dataset` which are not recorded
+ * @returns breadcrumb events handler
  * @hidden
  */
-export function keypressEventHandler(): (event: Event) => void {
-  // TODO: if somehow user switches keypress target before
-  //       debounce timeout is triggered, we will only capture
-  //       a single breadcrumb from the FIRST target (acceptable?)
-  return (event: Event) => {
-    let target;
-
-    try {
-      target = event.target;
-    } catch (e) {
-      // just accessing event properties can throw an exception in some rare circumstances
-      // see: https://github.com/getsentry/raven-js/issues/838
+export function breadcrumbEventHandler(handler: string, filterDataset: string[] = []): (event: MinaEvent) => void {
+  return (event: MinaEvent) => {
+    // It's possible this handler might trigger multiple times for the same
+    // event (e.g. a handler calling another one). Ignore if we've already captured the event.
+    // tslint:disable-next-line: strict-comparisons
+    if (!event || lastCapturedEvent === event) {
       return;
     }
 
-    const tagName = target && (target as HTMLElement).tagName;
-
-    // only consider keypress events on actual input elements
-    // this will disregard keypresses targeting body (e.g. tabbing
-    // through elements, hotkeys, etc)
-    if (!tagName || (tagName !== 'INPUT' && tagName !== 'TEXTAREA' && !(target as HTMLElement).isContentEditable)) {
+    const type = UI_EVENT_TYPES[event.type.toLowerCase()];
+    if (!type) {
       return;
     }
 
-    // record first keypress in a series, but ignore subsequent
-    // keypresses until debounce clears
-    if (!keypressTimeout) {
-      breadcrumbEventHandler('input')(event);
+    lastCapturedEvent = event;
+
+    if (type === 'input') {
+      // record first input in a series, but ignore subsequent
+      // inputs until debounce clears
+      const debounced = !!inputTimeout;
+      clearTimeout(inputTimeout);
+      inputTimeout = (setTimeout(() => {
+        inputTimeout = undefined;
+      }, debounceDuration) as any) as number;
+
+      if (debounced) {
+        return;
+      }
+    } else {
+      // reset input timeout; e.g. tapping after an input
+      // starts a new series of inputs to be recorded
+      inputTimeout = undefined;
     }
-    clearTimeout(keypressTimeout);
 
-    keypressTimeout = (setTimeout(() => {
-      keypressTimeout = undefined;
-    }, debounceDuration) as any) as number;
+    const target = event.currentTarget || event.target || {};
+    const dataset: { [key: string]: any } = {};
+    Object.keys(target.dataset || {}).forEach((key: string) => {
+      if (filterDataset.indexOf(key) === -1) {
+        dataset[key] = (target.dataset as any)[key];
+      }
+    });
+
+    getCurrentHub().addBreadcrumb(
+      {
+        category: `ui.${type}`, // e.g. ui.tap, ui.input
+        data: {
+          dataset,
+          handler,
+          ...(target.id && { id: target.id }),
+        },
+        message: target.id ? `${handler} #${target.id}` : handler,
+      },
+      {
+        event,
+        name: handler,
+      },
+    );
   };
 }
-
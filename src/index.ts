@@ -39,6 +39,8 @@ export {
 
 export { SDK_NAME, SDK_VERSION } from "./version";
 export {
+  captureAttachments,
+  captureUserFeedback,
   defaultIntegrations,
   init,
   lastEventId,
@@ -49,6 +51,7 @@ export {
 } from "./sdk";
 export { MiniappOptions } from "./backend";
 export { MiniappClient, ReportDialogOptions } from "./client";
+export { Attachment, UserFeedback } from "./transports/index";
 
 import * as Integrations from "./integrations/index";
 import * as Transports from "./transports/index";
@@ -0,0 +1,391 @@
+import { logger } from "@sentry/utils";
+
+import {
+  fromPlatformRequestOptions,
+  normalizeRequestError,
+  normalizeRequestResponse,
+  RequestError,
+  RequestOptions,
+  RequestResponse,
+  requestApiName,
+  withPlatformRequestHeaders,
+} from "./crossPlatform";
+import { getMinaContext, supportRequest } from "./env";
+
+declare let App: any;
+declare let Page: any;
+declare let Component: any;
+
+/** Options object passed to the `App()`, `Page()` or `Component()` constructor */
+export interface ConstructorOptions {
+  [key: string]: any;
+}
+
+/**
+ * Data passed to request handlers: once before the request is sent, when handlers may add
+ * `options.headers`, and once more with `endTimestamp` set when it completes.
+ */
+export interface RequestHandlerData {
+  [key: string]: any;
+  options: RequestOptions;
+  startTimestamp: number;
+  endTimestamp?: number;
+  response?: RequestResponse;
+  error?: RequestError;
+}
+
+/** What the SDK is able to instrument */
+type InstrumentHandlerType = "App" | "Page" | "Component" | "request";
+
+/** JSDoc */
+type InstrumentHandlerCallback = (data: any) => void;
+
+/** Undoes an instrumentation, see {@link fill} and {@link addInstrumentationHandler} */
+export type RestoreInstrumentation = () => void;
+
+const handlers: { [type: string]: InstrumentHandlerCallback[] } = {};
+const instrumented: { [type: string]: boolean } = {};
+const restores: { [type: string]: RestoreInstrumentation | undefined } = {};
+
+/**
+ * Replaces a property of an object with a wrapped version of it.
+ * 小程序平台的 API 对象部分属性不可写，需要通过 defineProperties 重新定义。
+ * @returns A function restoring the original property, undefined if the property has not been replaced.
+ * @hidden
+ */
+export function fill(source: any, name: any, replacement: any): RestoreInstrumentation | undefined {
+  try {
+    if (!(name in source) || (source[name]).__sentry__) {
+      return undefined;
+    }
+    const original = source[name];
+    const wrapped = replacement(original);
+    wrapped.__sentry__ = true;
+    wrapped.__sentry_original__ = original;
+    wrapped.__sentry_wrapped__ = wrapped;
+    if (Object.defineProperties && Object.getOwnPropertyDescriptor) {
+      const desp: any = Object.getOwnPropertyDescriptor(source, name);
+      if (!desp.configurable) {
+        throw new Error('unable to config');
+      }
+      Object.defineProperties(source, {
+        [name]: {
+          value: wrapped
+        }
+      });
+    } else {
+      source[name] = wrapped;
+    }
+    return () => unfill(source, name);
+  } catch (e) {
+    logger.warn(`fail to reset property ${name}`);
+    return undefined;
+  }
+}
+
+/**
+ * Restores a property replaced by {@link fill} (or `fill` of `@sentry/utils`) to its `__sentry_original__`.
+ * @hidden
+ */
+export function unfill(source: any, name: string): void {
+  try {
+    const wrapped = source[name];
+    if (!wrapped || !wrapped.__sentry_original__) {
+      return;
+    }
+    const desp = Object.getOwnPropertyDescriptor && Object.getOwnPropertyDescriptor(source, name);
+    if (desp && desp.configurable && Object.defineProperties) {
+      Object.defineProperties(source, {
+        [name]: {
+          value: wrapped.__sentry_original__
+        }
+      });
+    } else {
+      source[name] = wrapped.__sentry_original__;
+    }
+  } catch (e) {
+    logger.warn(`fail to restore property ${name}`);
+  }
+}
+
+/**
+ * Calls and removes all given restore functions, e.g. those collected by an integration to undo it on teardown.
+ * @hidden
+ */
+export function restoreAll(restores: RestoreInstrumentation[]): void {
+  restores.splice(0).forEach((restore: RestoreInstrumentation) => restore());
+}
+
+/** Replaces the global `App()` so registered handlers see the options of the app */
+function instrumentApp(): RestoreInstrumentation | undefined {
+  if (typeof App !== "function") {
+    logger.warn("App is not function in global");
+    return undefined;
+  }
+
+  const originalApp = App;
+  // tslint:disable-next-line: only-arrow-functions
+  const wrappedApp = function(this: any, options: ConstructorOptions = {}): any {
+    triggerHandlers("App", options);
+    // tslint:disable-next-line: no-unsafe-any
+    return originalApp.call(this, options);
+  };
+  App = wrappedApp;
+
+  return () => {
+    if (App === wrappedApp) {
+      App = originalApp;
+    }
+  };
+}
+
+/** Replaces the global `Page()` so registered handlers see the options of every page */
+function instrumentPage(): RestoreInstrumentation | undefined {
+  if (typeof Page !== "function") {
+    logger.warn("Page is not function in global");
+    return undefined;
+  }
+
+  const originalPage = Page;
+  // tslint:disable-next-line: only-arrow-functions
+  const wrappedPage = function(this: any, options: ConstructorOptions = {}): any {
+    triggerHandlers("Page", options);
+    // tslint:disable-next-line: no-unsafe-any
+    return originalPage.call(this, options);
+  };
+  Page = wrappedPage;
+
+  return () => {
+    if (Page === wrappedPage) {
+      Page = originalPage;
+    }
+  };
+}
+
+/** Replaces the global `Component()` so registered handlers see the options of every component */
+function instrumentComponent(): RestoreInstrumentation | undefined {
+  if (typeof Component !== "function") {
+    logger.warn("Component is not function in global");
+    return undefined;
+  }
+
+  const originalComponent = Component;
+  // tslint:disable-next-line: only-arrow-functions
+  const wrappedComponent = function(this: any, options: ConstructorOptions = {}): any {
+    triggerHandlers("Component", options);
+    // tslint:disable-next-line: no-unsafe-any
+    return originalComponent.call(this, options);
+  };
+  Component = wrappedComponent;
+
+  return () => {
+    if (Component === wrappedComponent) {
+      Component = originalComponent;
+    }
+  };
+}
+
+/** Wraps the platform request API so registered handlers see every outgoing request */
+function instrumentRequest(): RestoreInstrumentation | undefined {
+  if (!supportRequest()) {
+    return undefined;
+  }
+
+  const ctx = getMinaContext();
+  return fill(ctx, requestApiName, (originalRequest: any) =>
+    (requestOptions: any = {}) => {
+      const handlerData: RequestHandlerData = {
+        options: fromPlatformRequestOptions(requestOptions),
+        startTimestamp: Date.now(),
+      };
+      triggerHandlers("request", handlerData);
+
+      const platformOptions = withPlatformRequestHeaders(requestOptions, handlerData.options.headers || {});
+      const originSuccess = requestOptions.success;
+      const originFail = requestOptions.fail;
+
+      platformOptions.success = (res: any) => {
+        handlerData.endTimestamp = Date.now();
+        handlerData.response = normalizeRequestResponse(res);
+        triggerHandlers("request", handlerData);
+        if (originSuccess) {
+          originSuccess(res);
+        }
+      };
+
+      platformOptions.fail = (error: any) => {
+        handlerData.endTimestamp = Date.now();
+        handlerData.error = normalizeRequestError(error);
+        triggerHandlers("request", handlerData);
+        if (originFail) {
+          originFail(error);
+        }
+      };
+
+      return originalRequest.call(ctx, platformOptions);
+    });
+}
+
+/** JSDoc */
+function instrument(type: InstrumentHandlerType): void {
+  if (instrumented[type]) {
+    return;
+  }
+
+  instrumented[type] = true;
+
+  switch (type) {
+    case "App":
+      restores[type] = instrumentApp();
+      break;
+    case "Page":
+      restores[type] = instrumentPage();
+      break;
+    case "Component":
+      restores[type] = instrumentComponent();
+      break;
+    case "request":
+      restores[type] = instrumentRequest();
+      break;
+    default:
+      logger.warn("unknown instrumentation type:", type);
+  }
+}
+
+/** Restores the instrumented global or API once the last handler of a type has been removed. */
+function uninstrument(type: InstrumentHandlerType): void {
+  if (!instrumented[type] || (handlers[type] && handlers[type].length)) {
+    return;
+  }
+
+  const restore = restores[type];
+  restores[type] = undefined;
+  instrumented[type] = false;
+  if (restore) {
+    restore();
+  }
+}
+
+/** JSDoc */
+function triggerHandlers(type: InstrumentHandlerType, data: any): void {
+  for (const handler of handlers[type] || []) {
+    try {
+      handler(data);
+    } catch (e) {
+      logger.error(`Error while triggering instrumentation handler.\nType: ${type}\nError: ${e}`);
+    }
+  }
+}
+
+/**
+ * Adds a handler that will be called when given type of instrumentation triggers:
+ * `App`, `Page` and `Component` handlers receive the options of every `App()` / `Page()` / `Component()`
+ * created afterwards and may wrap its methods,
+ * `request` handlers receive {@link RequestHandlerData} of every outgoing request.
+ * @returns A function removing the handler, the instrumentation is undone once no handler is left.
+ * Options of constructors called before remain wrapped.
+ * @hidden
+ */
+export function addInstrumentationHandler(
+  type: InstrumentHandlerType,
+  callback: InstrumentHandlerCallback,
+): RestoreInstrumentation {
+  handlers[type] = handlers[type] || [];
+  handlers[type].push(callback);
+  instrument(type);
+
+  return () => {
+    handlers[type] = (handlers[type] || []).filter((handler: InstrumentHandlerCallback) => handler !== callback);
+    uninstrument(type);
+  };
+}
+
+/**
+ * Replaces a method of constructor options, the method does not need to exist.
+ * 替换选项中的方法，原方法不存在时 `original` 为 undefined。
+ * @hidden
+ */
+export function fillMethod(
+  options: ConstructorOptions,
+  name: string,
+  replacement: (original?: Function) => Function,
+): void {
+  const original = options[name];
+  if (original !== undefined && typeof original !== "function") {
+    return;
+  }
+  options[name] = replacement(original as Function | undefined);
+}
+
+/**
+ * Replaces a lifetime method of `Component()` options. WeChat-style platforms prefer
+ * `lifetimes.xxx` over the top-level method, so the one actually used by the platform is wrapped.
+ * 替换组件生命周期函数，优先替换 lifetimes 中定义的函数。
+ * @hidden
+ */
+export function fillComponentLifetime(
+  options: ConstructorOptions,
+  name: string,
+  replacement: (original?: Function) => Function,
+): void {
+  if (options.lifetimes && typeof options.lifetimes[name] === "function") {
+    fillMethod(options.lifetimes, name, replacement);
+  } else {
+    fillMethod(options, name, replacement);
+  }
+}
+
+/**
+ * Like {@link fill}, but the property is only replaced once it is first read, so APIs which are
+ * never called don't pay the wrapping cost.
+ * 首次读取属性时才进行替换，未被调用的 API 不会被包装。
+ * @hidden
+ */
+export function lazyFill(
+  source: any,
+  name: string,
+  replacement: (original: any) => any,
+): RestoreInstrumentation | undefined {
+  try {
+    const original = source[name];
+    const descriptor = Object.getOwnPropertyDescriptor(source, name);
+    if (typeof original !== "function" || original.__sentry__ || (descriptor && !descriptor.configurable)) {
+      return undefined;
+    }
+
+    const enumerable = descriptor ? descriptor.enumerable : true;
+    const define = (value: any) =>
+      Object.defineProperty(source, name, { configurable: true, enumerable, value, writable: true });
+    const getter = (): any => {
+      define(original);
+      fill(source, name, replacement);
+      return source[name];
+    };
+
+    Object.defineProperty(source, name, {
+      configurable: true,
+      enumerable,
+      get: getter,
+      set(value: any): void {
+        define(value);
+      },
+    });
+
+    return () => {
+      const current = Object.getOwnPropertyDescriptor(source, name);
+      if (current && current.get === getter) {
+        // never accessed, put back the property as it was
+        if (descriptor) {
+          Object.defineProperty(source, name, descriptor);
+        } else {
+          delete source[name];
+        }
+      } else {
+        unfill(source, name);
+      }
+    };
+  } catch (e) {
+    logger.warn(`fail to reset property ${name}`);
+    return undefined;
+  }
+}
@@ -1,17 +1,29 @@
-import {API, captureException, getCurrentHub} from '@sentry/core';
-import {Integration, Severity} from '@sentry/types';
-import {getEventDescription, isError, isMatchingPattern, logger, safeJoin } from '@sentry/utils';
+import {captureException, getCurrentHub} from '@sentry/core';
+import {Event, Integration, Scope, Severity} from '@sentry/types';
+import {addExceptionMechanism, getEventDescription, isError, logger, safeJoin } from '@sentry/utils';
 
+import { normalizeApiError } from '../crossPlatform';
 import {
+  getCapabilities,
   getCurrentPage,
-  getMinaApiList,
   getMinaContext,
   getPrevPage,
   isWxUnhandledPromiseError,
   MINA_APP_LIFE_CYCLE,
-  supportNavigations,
-  supportRequest
+  MINA_PAGE_LIFE_CYCLE,
+  supportNavigations
 } from '../env';
+import { breadcrumbEventHandler, isMinaEvent, isSentryRequest, markCaptured } from '../helpers';
+import {
+  addInstrumentationHandler,
+  ConstructorOptions,
+  fill,
+  fillMethod,
+  lazyFill,
+  RequestHandlerData,
+  restoreAll,
+  RestoreInstrumentation
+} from '../instrument';
 
 const fillKeys = (obj: any, keys: any[] = []): any => {
   if (!keys || !keys.length) return obj;
@@ -24,52 +36,60 @@ const fillKeys = (obj: any, keys: any[] = []): any => {
   return objCopy
 }
 
-const fill = (source: any, name: any, replacement: any): any => {
-  try {
-    if (!(name in source) || (source[name]).__sentry__) {
-      return;
-    }
-    const original = source[name];
-    const wrapped = replacement(original);
-    wrapped.__sentry__ = true;
-    wrapped.__sentry_original__ = original;
-    wrapped.__sentry_wrapped__ = wrapped;
-    if (Object.defineProperties && Object.getOwnPropertyDescriptor) {
-      const desp: any = Object.getOwnPropertyDescriptor(source, name);
-      if (!desp.configurable) {
-        throw new Error('unable to config');
-      }
-      Object.defineProperties(source, {
-        [name]: {
-          value: wrapped
-        }
-      });
-    } else {
-      source[name] = wrapped;
-    }
-  } catch (e) {
-    logger.warn(`fail to reset property ${name}`);
-  }
-}
-
 /** JSDoc */
 interface IntegrationOptions {
   console: string[] | boolean | undefined;
   request: boolean | any | undefined;
   navigation: boolean | undefined;
-  api: boolean | undefined;
+  api: boolean | string[] | undefined;
   lifecycle: boolean | undefined;
   unhandleError: boolean | undefined;
   realtimeLog: boolean | undefined;
   filterApis: string[] | undefined;
+  ui?: boolean;
+  filterDataset?: string[];
+  captureApiErrors?: boolean | string[];
 }
 
+/** APIs recorded when `api` is `true`, pass a list of API names to record others */
+const DEFAULT_API_LIST = [
+  'login',
+  'checkSession',
+  'getUserProfile',
+  'getUserInfo',
+  'authorize',
+  'getSetting',
+  'openSetting',
+  'requestPayment',
+  'requestSubscribeMessage',
+  'getLocation',
+  'chooseLocation',
+  'chooseImage',
+  'chooseMedia',
+  'previewImage',
+  'uploadFile',
+  'downloadFile',
+  'saveImageToPhotosAlbum',
+  'scanCode',
+  'setStorage',
+  'getStorage',
+  'removeStorage',
+  'setClipboardData',
+  'makePhoneCall',
+  'navigateToMiniProgram',
+  'getNetworkType',
+];
+
+/** APIs whose failures are captured as events when `captureApiErrors` is `true` */
+const DEFAULT_CAPTURE_APIS = ['login', 'requestPayment', 'getLocation', 'authorize'];
+
 /** JSDoc */
 export class Breadcrumbs implements Integration {
   public name: string;
   public ctx: any;
   public realtimeLogManager: any;
   private readonly _options: IntegrationOptions;
+  private readonly _teardowns: RestoreInstrumentation[] = [];
   public static id: string = "Breadcrumbs";
 
   public constructor(options: IntegrationOptions) {
@@ -85,6 +105,7 @@ export class Breadcrumbs implements Integration {
       lifecycle: true,
       unhandleError: true,
       realtimeLog: true,
+      ui: true,
       ...options,
     };
   }
@@ -102,12 +123,13 @@ export class Breadcrumbs implements Integration {
     }
     const captureUnhandleError = this._options.unhandleError;
     const realtimeLogManager = this.realtimeLogManager;
+    const teardowns = this._teardowns;
     watchFunctions.forEach(function (level: string): any {
       if (!(level in console)) {
         return;
       }
 
-      fill(console, level, function (originalConsoleLevel: any) {
+      addTeardown(teardowns, fill(console, level, function (originalConsoleLevel: any) {
         return function (...args: any[]): any {
           if (consoleFilterFunctions.indexOf(level) > -1) {
             const breadcrumbData = {
@@ -158,111 +180,153 @@ export class Breadcrumbs implements Integration {
             }
           }
         };
-      });
+      }));
     });
   }
 
   /** JSDoc */
   public instrumentMinaApi(): void {
-    let apiList = getMinaApiList();
+    const setupStart = Date.now();
+    let apiList: string[] = DEFAULT_API_LIST;
     if (Array.isArray(this._options.api)) {
       apiList = this._options.api;
     } else if (!this._options.api) {
       apiList = [];
     }
-    apiList.forEach((api: any) => {
+    let captureApis: string[] = [];
+    if (Array.isArray(this._options.captureApiErrors)) {
+      captureApis = this._options.captureApiErrors;
+    } else if (this._options.captureApiErrors) {
+      captureApis = DEFAULT_CAPTURE_APIS;
+    }
+    const instrumentApis = apiList.concat(captureApis.filter((api: string) => apiList.indexOf(api) === -1));
+    instrumentApis.forEach((api: string) => {
       if (this._options.filterApis && this._options.filterApis.includes(api)) {
         return
       }
       if (this.ctx[api] && typeof this.ctx[api] === 'function') {
-        fill(this.ctx, api, (originalRequest: any) =>
+        const captureErrors = captureApis.indexOf(api) > -1;
+        // 仅在 API 首次被调用时才进行包装
+        addTeardown(this._teardowns, lazyFill(this.ctx, api, (originalRequest: any) =>
           (...args: any[]) => {
-            Breadcrumbs.addBreadcrumb(
-              {
-                category: 'mina-api',
-                data: {
-                  args,
-                  name: api
-                }
+            const startTimestamp = Date.now();
+            const callArgs = args.slice();
+            const record = (outcome: string, res?: any) => {
+              recordMinaApiCall(api, callArgs, outcome, Date.now() - startTimestamp, res);
+              if (outcome === 'fail' && captureErrors) {
+                captureMinaApiError(api, res);
               }
-            );
-            return originalRequest.apply(this.ctx, args);
-          });
+            };
+
+            const options = args[0];
+            const hasCallbacks = !!options && typeof options === 'object' &&
+              ['success', 'fail', 'complete'].some((key: string) => typeof options[key] === 'function');
+            if (hasCallbacks) {
+              // 平台 API 传入回调时通过 success / fail 获取调用结果
+              args[0] = {
+                ...options,
+                success: (res: any) => {
+                  record('success', res);
+                  return options.success && options.success(res);
+                },
+                fail: (res: any) => {
+                  record('fail', res);
+                  return options.fail && options.fail(res);
+                },
+              };
+            }
+
+            let result;
+            try {
+              result = originalRequest.apply(this.ctx, args);
+            } catch (e) {
+              record('fail', { errMsg: `${api}:fail ${e && e.message}` });
+              throw e;
+            }
+
+            if (!hasCallbacks && result && typeof result.then === 'function') {
+              // 未传入回调时部分 API 返回 Promise，返回新的 Promise 以保留拒绝状态，
+              // 未处理的拒绝仍会触发 onUnhandledRejection
+              return result.then(
+                (res: any) => {
+                  record('success', res);
+                  return res;
+                },
+                (res: any) => {
+                  record('fail', res);
+                  if (captureErrors) {
+                    markCaptured(res);
+                  }
+                  throw res;
+                },
+              );
+            } else if (!hasCallbacks) {
+              // 同步 API 未抛出异常即为调用成功，监听类 API 只记录调用
+              record(/Sync$/.test(api) ? 'success' : 'called');
+            }
+            return result;
+          }));
       }
     });
+    logger.log(`Breadcrumbs prepared ${instrumentApis.length} APIs in ${Date.now() - setupStart}ms`);
   }
 
   /** JSDoc */
   public instrumentRequest(): void {
-    if (!supportRequest()) {
-      return;
-    }
+    addTeardown(this._teardowns, addInstrumentationHandler('request', (handlerData: RequestHandlerData) => {
+      const { options } = handlerData;
+      const method = options.method ? options.method.toUpperCase() : 'GET';
 
-    fill(this.ctx, 'request', (originalRequest: any) =>
-      (requestOptions: any = {}) => {
-        const method = requestOptions.method ? requestOptions.method.toUpperCase() : 'GET';
-        const url = requestOptions.url;
-
-        const client = getCurrentHub().getClient();
-        const dsn = client && client.getDsn();
-        if (dsn) {
-          const filterUrl = new API(dsn).getStoreEndpoint();
-          if (filterUrl && isMatchingPattern(url, filterUrl)) {
-            if (method === 'POST' && requestOptions.data) {
-              addSentryBreadcrumb(requestOptions.data);
-            }
-            return originalRequest.call(this.ctx, requestOptions);
-          }
+      if (isSentryRequest(options.url)) {
+        if (!handlerData.endTimestamp && method === 'POST' && options.data) {
+          addSentryBreadcrumb(options.data);
         }
-        const fetchData = {
-          method,
-          url,
-          header: fillKeys(requestOptions.header, this._options.request?.filterHeaders || []),
-          dataType: requestOptions.dataType,
-          status_code: 0,
-          requestData: requestOptions.data,
-        };
+        return;
+      }
 
-        const originSuccess = requestOptions.success;
-        const originFail = requestOptions.fail;
+      // only record a breadcrumb once the request has completed
+      if (!handlerData.endTimestamp) {
+        return;
+      }
 
-        requestOptions.success = (res: any) => {
-          fetchData.status_code = res.statusCode;
-          let data = res && typeof res.data === 'string' ? (res.data?.length > 128 ? res.data?.substr(0, 128) + '...' : res.data) : null;
-          Breadcrumbs.addBreadcrumb(
-            {
-              category: 'request',
-              data: {
-                ...fetchData,
-                response: {
-                  header: fillKeys(res.header, this._options.request?.filterHeaders || []),
-                  data,
-                },
+      const filterHeaders = this._options.request?.filterHeaders || [];
+      const fetchData = {
+        method,
+        url: options.url,
+        header: fillKeys(options.headers, filterHeaders),
+        dataType: options.dataType,
+        status_code: 0,
+        requestData: options.data,
+      };
+
+      const res = handlerData.response;
+      if (res) {
+        fetchData.status_code = res.statusCode;
+        let data = typeof res.data === 'string' ? (res.data.length > 128 ? res.data.substr(0, 128) + '...' : res.data) : null;
+        Breadcrumbs.addBreadcrumb(
+          {
+            category: 'request',
+            data: {
+              ...fetchData,
+              response: {
+                header: fillKeys(res.headers, filterHeaders),
+                data,
               },
-              type: 'http',
-            }
-          );
-          if (originSuccess) {
-            originSuccess(res);
+            },
+            type: 'http',
           }
-        };
-
-        requestOptions.fail = (error: any) => {
-          Breadcrumbs.addBreadcrumb(
-            {
-              category: 'request',
-              data: fetchData,
-              level: Severity.Error,
-              type: 'http',
-            }
-          );
-          if (originFail) {
-            originFail(error);
+        );
+      } else {
+        Breadcrumbs.addBreadcrumb(
+          {
+            category: 'request',
+            data: fetchData,
+            level: Severity.Error,
+            type: 'http',
           }
-        };
-
-        return originalRequest.call(this.ctx, requestOptions);
-      });
+        );
+      }
+    }));
   }
 
   /** JSDoc */
@@ -299,15 +363,49 @@ export class Breadcrumbs implements Integration {
     }
 
     supportList.forEach((api: any) => {
-      fill(this.ctx, api, historyReplacementFunction);
+      addTeardown(this._teardowns, fill(this.ctx, api, historyReplacementFunction));
     });
   }
 
+  /** JSDoc */
+  public instrumentUI(): void {
+    const filterDataset = this._options.filterDataset || [];
+
+    // 页面、组件中接收事件对象的函数即为事件处理函数（如 bindtap 绑定的函数）
+    const instrumentHandlers = (handlers: ConstructorOptions, skip: string[] = []) => {
+      Object.keys(handlers).forEach((name: string) => {
+        if (skip.indexOf(name) > -1 || typeof handlers[name] !== 'function') {
+          return;
+        }
+        const recordEvent = breadcrumbEventHandler(name, filterDataset);
+        fillMethod(handlers, name, (original?: Function) =>
+          function (this: any, ...args: any[]): any {
+            if (isMinaEvent(args[0]) && getCurrentHub().getIntegration(Breadcrumbs)) {
+              recordEvent(args[0]);
+            }
+            return original && original.apply(this, args);
+          });
+      });
+    };
+
+    addTeardown(this._teardowns, addInstrumentationHandler('Page', (options: ConstructorOptions) => {
+      instrumentHandlers(options, MINA_PAGE_LIFE_CYCLE);
+    }));
+
+    addTeardown(this._teardowns, addInstrumentationHandler('Component', (options: ConstructorOptions) => {
+      if (options.methods && typeof options.methods === 'object') {
+        instrumentHandlers(options.methods);
+      }
+    }));
+  }
+
   public instrumentLifeCycle() {
     const ctx: any = this.ctx;
     MINA_APP_LIFE_CYCLE.forEach((key: any) => {
-      // tslint:disable-next-line:no-unused-expression
-      ctx[key] && ctx[key]((res: any) => {
+      if (!ctx[key]) {
+        return;
+      }
+      const listener = (res: any) => {
         Breadcrumbs.addBreadcrumb({
           category: 'app-life-cycle',
           data: {
@@ -315,8 +413,48 @@ export class Breadcrumbs implements Integration {
             args: res
           },
         });
-      });
+      };
+      ctx[key](listener);
+      // onAppShow -> offAppShow
+      const off = key.replace(/^on/, 'off');
+      addTeardown(this._teardowns, () => ctx[off] && ctx[off](listener));
     });
+
+    addTeardown(this._teardowns, addInstrumentationHandler('Page', (options: ConstructorOptions) => {
+      MINA_PAGE_LIFE_CYCLE.forEach((key: string) => {
+        fillMethod(options, key, (original?: Function) =>
+          function (this: any, ...args: any[]): any {
+            const data: { [key: string]: any } = {
+              name: key,
+              route: this.route || this.__route__ || getCurrentPage(),
+            };
+
+            if (key === 'onLoad') {
+              data.query = args[0];
+            } else if (key === 'onShow') {
+              this.__sentry_shown_at__ = Date.now();
+            } else if ((key === 'onHide' || key === 'onUnload') && this.__sentry_shown_at__) {
+              // 页面停留时长，从 onShow 开始计算
+              data.duration = Date.now() - this.__sentry_shown_at__;
+              this.__sentry_shown_at__ = undefined;
+            }
+
+            Breadcrumbs.addBreadcrumb({
+              category: 'page-life-cycle',
+              data,
+              message: `${data.route} ${key}`,
+            });
+            return original && original.apply(this, args);
+          });
+      });
+    }));
+  }
+
+  /**
+   * Restores the instrumented console, APIs and globals, invoked when the client is closed.
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
   }
 
   /** JSDoc */
@@ -328,6 +466,15 @@ export class Breadcrumbs implements Integration {
 
   /** JSDoc */
   public setupOnce(): void {
+    const capabilities = getCapabilities();
+    logger.log(`Breadcrumbs capabilities on ${capabilities.platform}: ${JSON.stringify(capabilities)}`);
+    if (this._options.request && !capabilities.request) {
+      logger.warn(`request breadcrumbs are not supported on ${capabilities.platform}`);
+    }
+    if (this._options.navigation && !capabilities.navigation.length) {
+      logger.warn(`navigation breadcrumbs are not supported on ${capabilities.platform}`);
+    }
+
     if (this._options.console || (this._options.realtimeLog && this.realtimeLogManager)) {
       this.instrumentConsole();
     }
@@ -337,19 +484,32 @@ export class Breadcrumbs implements Integration {
     if (this._options.request) {
       this.instrumentRequest();
     }
-    if (this._options.api) {
+    if (this._options.api || this._options.captureApiErrors) {
       this.instrumentMinaApi();
     }
     if (this._options.lifecycle) {
       this.instrumentLifeCycle();
     }
+    if (this._options.ui) {
+      this.instrumentUI();
+    }
   }
 }
 
 /** JSDoc */
 function addSentryBreadcrumb(serializedData: any): void {
   try {
-    const event = JSON.parse(serializedData);
+    const lines = typeof serializedData === 'string' ? serializedData.split('\n') : [];
+    let event;
+    if (lines.length > 2) {
+      // envelope: headers, item headers, item payload
+      if (JSON.parse(lines[1]).type !== 'event') {
+        return;
+      }
+      event = JSON.parse(lines[2]);
+    } else {
+      event = JSON.parse(serializedData);
+    }
     Breadcrumbs.addBreadcrumb(
       {
         category: 'sentry',
@@ -365,3 +525,59 @@ function addSentryBreadcrumb(serializedData: any): void {
     logger.error('Error while adding sentry type breadcrumb');
   }
 }
+
+/** JSDoc */
+function addTeardown(teardowns: RestoreInstrumentation[], teardown?: RestoreInstrumentation): void {
+  if (teardown) {
+    teardowns.push(teardown);
+  }
+}
+
+/** JSDoc */
+function recordMinaApiCall(api: string, args: any[], outcome: string, duration: number, res?: any): void {
+  const error = outcome === 'fail' ? normalizeApiError(res, api) : undefined;
+  Breadcrumbs.addBreadcrumb(
+    {
+      category: 'mina-api',
+      data: {
+        args,
+        name: api,
+        outcome,
+        duration,
+        ...(error && { errMsg: error.errMsg }),
+        ...(error && error.errCode !== undefined && { errCode: error.errCode }),
+      },
+      level: error ? Severity.Warning : Severity.Info,
+      ...(error && { message: error.errMsg }),
+    },
+    {
+      input: args,
+      response: res,
+    },
+  );
+}
+
+/** Captures the failure of a platform API as event, grouped by API and error code. */
+function captureMinaApiError(api: string, res?: any): void {
+  const hub = getCurrentHub();
+  if (!hub.getIntegration(Breadcrumbs)) {
+    return;
+  }
+
+  // `{ errMsg, errCode }` is turned into an exception typed by the API by `eventFromUnknownInput`,
+  // the same event as for an unhandled rejection of the API
+  const { errMsg, errCode } = normalizeApiError(res, api);
+  const apiError = {
+    ...res,
+    ...(errCode !== undefined && { errCode }),
+    // 支付宝、钉钉的 errorMessage 不包含 API 名称
+    errMsg: errMsg.indexOf(`${api}:fail`) === 0 ? errMsg : `${api}:fail ${errMsg}`,
+  };
+  hub.withScope((scope: Scope) => {
+    scope.addEventProcessor((event: Event) => {
+      addExceptionMechanism(event, { data: { function: api }, handled: true, type: 'mina-api' });
+      return event;
+    });
+    hub.captureException(apiError);
+  });
+}
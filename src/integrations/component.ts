@@ -0,0 +1,167 @@
+import { getCurrentHub } from "@sentry/core";
+import { Event, Integration, Mechanism, Scope } from "@sentry/types";
+import { addExceptionMechanism } from "@sentry/utils";
+
+import { appName } from "../crossPlatform";
+import { getComponentPage } from "../env";
+import { ignoreNextOnError, shouldIgnoreOnError, wrap } from "../helpers";
+import {
+  addInstrumentationHandler,
+  ConstructorOptions,
+  fillComponentLifetime,
+  restoreAll,
+  RestoreInstrumentation,
+} from "../instrument";
+
+/** JSDoc */
+interface ComponentIntegrations {
+  /**
+   * Capture errors reported to the native error lifetime (`lifetimes.error` / `onError`).
+   * 通过组件原生的 error 生命周期捕获异常。
+   */
+  errorLifetime?: boolean;
+}
+
+/** Component instance the wrapped functions are called on */
+interface ComponentInstance {
+  is?: string;
+}
+
+/** Lifetimes which may be defined at the top level of the options, the legacy style. */
+const TOP_LEVEL_LIFETIMES = [
+  "created",
+  "attached",
+  "ready",
+  "moved",
+  "detached",
+  "onInit",
+  "deriveDataFromProps",
+  "didMount",
+  "didUpdate",
+  "didUnmount",
+];
+
+/** Groups of functions in the options that are wrapped as a whole. */
+const FUNCTION_GROUPS = ["lifetimes", "pageLifetimes", "methods", "observers"];
+
+/** The native error lifetime of components. */
+const ERROR_LIFETIME = appName === "alipay" || appName === "dingtalk" ? "onError" : "error";
+
+/**
+ * Captures errors thrown in custom components created through `Component()`.
+ * 捕获自定义组件生命周期、pageLifetimes、methods、observers 中抛出的异常，并记录组件路径及所在页面路由。
+ */
+export class Component implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public name: string = Component.id;
+
+  /**
+   * @inheritDoc
+   */
+  public static id: string = "Component";
+
+  /** JSDoc */
+  private readonly _options: ComponentIntegrations;
+
+  /** Removes the instrumentation handlers */
+  private readonly _teardowns: RestoreInstrumentation[] = [];
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: ComponentIntegrations) {
+    this._options = {
+      errorLifetime: true,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    const removeHandler = addInstrumentationHandler("Component", (options: ConstructorOptions) => {
+      if (!getCurrentHub().getIntegration(Component)) {
+        return;
+      }
+
+      TOP_LEVEL_LIFETIMES.forEach((name: string) => wrapFunction(options, name, name));
+      FUNCTION_GROUPS.forEach((group: string) => {
+        const functions = options[group];
+        if (functions && typeof functions === "object") {
+          Object.keys(functions).forEach((name: string) => {
+            if (group !== "lifetimes" || name !== ERROR_LIFETIME) {
+              wrapFunction(functions, name, `${group}.${name}`);
+            }
+          });
+        }
+      });
+
+      if (this._options.errorLifetime) {
+        fillComponentLifetime(options, ERROR_LIFETIME, (original?: Function) =>
+          function(this: ComponentInstance, error: any, ...args: any[]): any {
+            if (!shouldIgnoreOnError()) {
+              captureComponentError(this, ERROR_LIFETIME, error);
+            }
+            return original && original.call(this, error, ...args);
+          });
+      }
+    });
+    this._teardowns.push(removeHandler);
+  }
+
+  /**
+   * Removes the `Component()` handler, components created before stay wrapped.
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
+  }
+}
+
+/** Returns the mechanism data identifying the component and the page it is rendered in. */
+function getComponentData(component: ComponentInstance, name: string): { [key: string]: string } {
+  return {
+    component: (component && component.is) || "unknown",
+    function: name,
+    route: getComponentPage(component),
+    target: "Component",
+  };
+}
+
+/** Wraps a function of the component options with `wrap()`. */
+function wrapFunction(functions: ConstructorOptions, name: string, mechanismName: string): void {
+  const original = functions[name];
+  if (typeof original !== "function") {
+    return;
+  }
+
+  const mechanism: Mechanism = {
+    data: { function: mechanismName, target: "Component" },
+    handled: false,
+    type: "instrument",
+  };
+
+  functions[name] = wrap(original, { mechanism }, function(this: ComponentInstance): void {
+    mechanism.data = getComponentData(this, mechanismName);
+  });
+}
+
+/** Captures an error reported to the native error lifetime of a component. */
+function captureComponentError(component: ComponentInstance, name: string, error: any): void {
+  ignoreNextOnError();
+
+  const hub = getCurrentHub();
+  hub.withScope((scope: Scope) => {
+    scope.addEventProcessor((event: Event) => {
+      addExceptionMechanism(event, {
+        data: getComponentData(component, `lifetimes.${name}`),
+        handled: false,
+        type: "component.error",
+      });
+      return event;
+    });
+    hub.captureException(typeof error === "string" ? new Error(error) : error);
+  });
+}
@@ -0,0 +1,221 @@
+import { addGlobalEventProcessor, getCurrentHub } from "@sentry/core";
+import { Breadcrumb, Event, Integration } from "@sentry/types";
+import { isMatchingPattern, isPlainObject } from "@sentry/utils";
+
+/** Rules applied to breadcrumbs of a category */
+interface CategoryRule {
+  /**
+   * Additional keys filtered from the data of these breadcrumbs.
+   * 该分类的面包屑额外过滤的字段。
+   */
+  denyKeys?: Array<string | RegExp>;
+
+  /**
+   * Drop these breadcrumbs altogether.
+   * 丢弃该分类的面包屑。
+   */
+  drop?: boolean;
+}
+
+/** JSDoc */
+interface DataScrubberIntegrations {
+  /**
+   * Values of these keys are replaced, strings match case-insensitively.
+   * 这些字段的值会被替换，字符串不区分大小写。
+   */
+  denyKeys?: Array<string | RegExp>;
+
+  /**
+   * Parts of string values matching these patterns are replaced.
+   * 字符串中匹配这些正则的部分会被替换，默认过滤手机号、身份证号及 Bearer token。
+   */
+  valuePatterns?: RegExp[];
+
+  /**
+   * Rules for breadcrumbs of a category, e.g. `{ "mina-api": { denyKeys: ["args"] } }`.
+   * 按面包屑分类（如 request、mina-api、console）配置的规则。
+   */
+  categories?: { [category: string]: CategoryRule };
+
+  /**
+   * Replaces scrubbed values.
+   */
+  replacement?: string;
+}
+
+/** Keys holding credentials or personal data in mini program APIs. */
+const DEFAULT_DENY_KEYS = [
+  "password",
+  "passwd",
+  "pwd",
+  "secret",
+  "token",
+  "accessToken",
+  "access_token",
+  "refreshToken",
+  "refresh_token",
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "phoneNumber",
+  "purePhoneNumber",
+  "encryptedData",
+  "iv",
+  "cloudID",
+  "paySign",
+  "signature",
+  "idCard",
+];
+
+/** Mainland China mobile numbers, ID card numbers and bearer tokens. */
+const DEFAULT_VALUE_PATTERNS = [/\b1[3-9]\d{9}\b/g, /\b\d{17}[\dXx]\b/g, /Bearer\s+[\w\-.~+/]+=*/gi];
+
+/** Maximum depth of nested objects that are scrubbed. */
+const MAX_DEPTH = 10;
+
+/**
+ * Removes personal data from breadcrumbs, request data, extras and contexts before events are sent.
+ * 上报前过滤面包屑、请求数据、extra 及 contexts 中的敏感信息（如密码、手机号、身份证号、token）。
+ */
+export class DataScrubber implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public name: string = DataScrubber.id;
+
+  /**
+   * @inheritDoc
+   */
+  public static id: string = "DataScrubber";
+
+  /** JSDoc */
+  private readonly _options: Required<DataScrubberIntegrations>;
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: DataScrubberIntegrations) {
+    this._options = {
+      categories: {},
+      denyKeys: DEFAULT_DENY_KEYS,
+      replacement: "[Filtered]",
+      valuePatterns: DEFAULT_VALUE_PATTERNS,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    addGlobalEventProcessor((event: Event) => {
+      const self = getCurrentHub().getIntegration(DataScrubber);
+      if (self) {
+        return self._scrubEvent(event);
+      }
+      return event;
+    });
+  }
+
+  /** Scrubs all parts of an event which may contain data collected by the SDK. */
+  private _scrubEvent(event: Event): Event {
+    const denyKeys = this._options.denyKeys;
+
+    if (event.breadcrumbs) {
+      event.breadcrumbs = event.breadcrumbs
+        .filter((breadcrumb: Breadcrumb) => !this._getRule(breadcrumb).drop)
+        .map((breadcrumb: Breadcrumb) => {
+          const keys = denyKeys.concat(this._getRule(breadcrumb).denyKeys || []);
+          return {
+            ...breadcrumb,
+            ...(breadcrumb.message && { message: this._scrub(breadcrumb.message, keys) }),
+            ...(breadcrumb.data && { data: this._scrub(breadcrumb.data, keys) }),
+          };
+        });
+    }
+
+    if (event.request) {
+      event.request = this._scrub(event.request, denyKeys);
+    }
+
+    if (event.extra) {
+      event.extra = this._scrub(event.extra, denyKeys);
+    }
+
+    if (event.contexts) {
+      // the trace context is needed to link events and transactions
+      const { trace, ...contexts } = event.contexts;
+      event.contexts = {
+        ...this._scrub(contexts, denyKeys),
+        ...(trace && { trace }),
+      };
+    }
+
+    return event;
+  }
+
+  /** JSDoc */
+  private _getRule(breadcrumb: Breadcrumb): CategoryRule {
+    return (breadcrumb.category && this._options.categories[breadcrumb.category]) || {};
+  }
+
+  /** Returns a copy of the value with denied keys and matching patterns replaced. */
+  private _scrub(value: any, denyKeys: Array<string | RegExp>, depth: number = 0): any {
+    if (typeof value === "string") {
+      return this._scrubString(value, denyKeys);
+    }
+
+    if (depth >= MAX_DEPTH) {
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item: any) => this._scrub(item, denyKeys, depth + 1));
+    }
+
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    const scrubbed: { [key: string]: any } = {};
+    Object.keys(value).forEach((key: string) => {
+      scrubbed[key] = isDeniedKey(key, denyKeys)
+        ? this._options.replacement
+        : this._scrub(value[key], denyKeys, depth + 1);
+    });
+    return scrubbed;
+  }
+
+  /** Scrubs a string, including denied keys of JSON serialized by the SDK (e.g. console arguments). */
+  private _scrubString(value: string, denyKeys: Array<string | RegExp>): string {
+    const { replacement } = this._options;
+    let scrubbed = value;
+
+    if (/^\s*[[{]/.test(scrubbed)) {
+      denyKeys.forEach((key: string | RegExp) => {
+        if (typeof key === "string") {
+          const keyPattern = new RegExp(`("${escapeRegExp(key)}"\\s*:\\s*)("(?:[^"\\\\]|\\\\.)*"|[^,}\\]]+)`, "gi");
+          scrubbed = scrubbed.replace(keyPattern, `$1"${replacement}"`);
+        }
+      });
+    }
+
+    this._options.valuePatterns.forEach((pattern: RegExp) => {
+      scrubbed = scrubbed.replace(pattern, replacement);
+    });
+    return scrubbed;
+  }
+}
+
+/** JSDoc */
+function isDeniedKey(key: string, denyKeys: Array<string | RegExp>): boolean {
+  const lowerKey = key.toLowerCase();
+  return denyKeys.some((denyKey: string | RegExp) =>
+    typeof denyKey === "string" ? denyKey.toLowerCase() === lowerKey : isMatchingPattern(key, denyKey),
+  );
+}
+
+/** JSDoc */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
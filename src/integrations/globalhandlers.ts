@@ -1,8 +1,16 @@
 import { getCurrentHub } from "@sentry/core";
-import { Integration } from "@sentry/types";
-import { logger } from "@sentry/utils";
-
-import { sdk } from "../crossPlatform";
+import { Event, Integration, Scope, Severity } from "@sentry/types";
+import { addExceptionMechanism, logger } from "@sentry/utils";
+
+import { addListener, sdk } from "../crossPlatform";
+import { isCaptured, shouldIgnoreOnError } from "../helpers";
+import {
+  addInstrumentationHandler,
+  ConstructorOptions,
+  fillMethod,
+  restoreAll,
+  RestoreInstrumentation,
+} from "../instrument";
 
 /** JSDoc */
 interface GlobalHandlersIntegrations {
@@ -39,6 +47,9 @@ export class GlobalHandlers implements Integration {
   /** JSDoc */
   private _onMemoryWarningHandlerInstalled: boolean = false;
 
+  /** Removes the installed listeners */
+  private readonly _teardowns: RestoreInstrumentation[] = [];
+
   /** JSDoc */
   public constructor(options?: GlobalHandlersIntegrations) {
     this._options = {
@@ -76,21 +87,47 @@ export class GlobalHandlers implements Integration {
     }
   }
 
+  /**
+   * Removes the listeners installed by the integration, invoked when the client is closed.
+   * 移除 onError 等监听函数，需要平台支持对应的 offError 等接口。
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
+    this._onErrorHandlerInstalled = false;
+    this._onUnhandledRejectionHandlerInstalled = false;
+    this._onPageNotFoundHandlerInstalled = false;
+    this._onMemoryWarningHandlerInstalled = false;
+  }
+
   /** JSDoc */
   private _installGlobalOnErrorHandler(): void {
     if (this._onErrorHandlerInstalled) {
       return;
     }
 
-    if (!!sdk.onError) {
-      const currentHub = getCurrentHub();
+    const currentHub = getCurrentHub();
+    const onError = (err: string | object) => {
+      // console.info("sentry-miniapp", error);
+      if (shouldIgnoreOnError()) {
+        // already captured by a wrapped function, see `wrap()`
+        return;
+      }
+      currentHub.withScope((scope: Scope) => {
+        scope.addEventProcessor((event: Event) => {
+          addExceptionMechanism(event, { handled: false, type: "onerror" });
+          return event;
+        });
+        // the payload is parsed by `eventFromUnknownInput`, wrapping it in an Error would hide the original type and stack
+        currentHub.captureException(err);
+      });
+    };
 
+    if (!!sdk.onError) {
       // https://developers.weixin.qq.com/miniprogram/dev/api/base/app/app-event/wx.onError.html
-      sdk.onError((err: string | object) => {
-        // console.info("sentry-miniapp", error);
-        const error = typeof err === 'string' ? new Error(err) : err
-        currentHub.captureException(error);
-      });
+      this._teardowns.push(addListener("Error", onError));
+    } else {
+      // 支付宝、钉钉小程序不支持 my.onError，通过 App({ onError }) 监听
+      this._fillAppMethod("onError", onError);
     }
 
     this._onErrorHandlerInstalled = true;
@@ -102,25 +139,37 @@ export class GlobalHandlers implements Integration {
       return;
     }
 
-    if (!!sdk.onUnhandledRejection) {
-      const currentHub = getCurrentHub();
-      /** JSDoc */
-      interface OnUnhandledRejectionRes {
-        reason: string | object;
-        promise: Promise<any>;
+    const currentHub = getCurrentHub();
+    /** JSDoc */
+    interface OnUnhandledRejectionRes {
+      reason: string | object;
+      promise: Promise<any>;
+    }
+
+    const onUnhandledRejection = ({ reason, promise }: OnUnhandledRejectionRes) => {
+      // console.log(reason, typeof reason, promise)
+      // 为什么官方文档上说 reason 是 string 类型，但是实际返回的确实 object 类型
+      if (isCaptured(reason)) {
+        // API 调用失败已由 Breadcrumbs 的 captureApiErrors 上报
+        return;
       }
+      const error = typeof reason === 'string' ? new Error(reason) : reason
+      currentHub.withScope((scope: Scope) => {
+        scope.addEventProcessor((event: Event) => {
+          addExceptionMechanism(event, { handled: false, type: "onunhandledrejection" });
+          return event;
+        });
+        currentHub.captureException(error, {
+          data: promise,
+        });
+      });
+    };
 
+    if (!!sdk.onUnhandledRejection) {
       // https://developers.weixin.qq.com/miniprogram/dev/api/base/app/app-event/wx.onUnhandledRejection.html
-      sdk.onUnhandledRejection(
-        ({ reason, promise }: OnUnhandledRejectionRes) => {
-          // console.log(reason, typeof reason, promise)
-          // 为什么官方文档上说 reason 是 string 类型，但是实际返回的确实 object 类型
-          const error = typeof reason === 'string' ? new Error(reason) : reason
-          currentHub.captureException(error, {
-            data: promise,
-          });
-        }
-      );
+      this._teardowns.push(addListener("UnhandledRejection", onUnhandledRejection));
+    } else {
+      this._fillAppMethod("onUnhandledRejection", onUnhandledRejection);
     }
 
     this._onUnhandledRejectionHandlerInstalled = true;
@@ -132,21 +181,59 @@ export class GlobalHandlers implements Integration {
       return;
     }
 
-    if (!!sdk.onPageNotFound) {
-      const currentHub = getCurrentHub();
-
-      sdk.onPageNotFound((res: { path: string }) => {
-        const url = res.path.split("?")[0];
-
-        currentHub.setTag("pagenotfound", url);
-        currentHub.setExtra("message", JSON.stringify(res));
+    const currentHub = getCurrentHub();
+    const onPageNotFound = (res: { path: string }) => {
+      const url = res.path.split("?")[0];
+
+      currentHub.withScope((scope: Scope) => {
+        scope.setLevel(Severity.Warning);
+        scope.setTag("pagenotfound", url);
+        scope.setExtra("message", JSON.stringify(res));
+        scope.addEventProcessor((event: Event) => {
+          // the platform shows its own fallback page, the app keeps running
+          addExceptionMechanism(event, { handled: true, type: "onpagenotfound" });
+          return event;
+        });
         currentHub.captureException(new Error(`页面无法找到: ${url}`));
       });
+    };
+
+    if (!!sdk.onPageNotFound) {
+      // https://developers.weixin.qq.com/miniprogram/dev/api/base/app/app-event/wx.onPageNotFound.html
+      this._teardowns.push(addListener("PageNotFound", onPageNotFound));
+    } else {
+      // 字节跳动小程序不支持 tt.onPageNotFound。
+      // 定义了 App.onPageNotFound 时平台不再跳转到默认的页面不存在提示页，因此仅包装用户已定义的函数
+      this._fillAppMethod("onPageNotFound", onPageNotFound, true);
     }
 
     this._onPageNotFoundHandlerInstalled = true;
   }
 
+  /**
+   * Calls the handler from a method of the `App()` options, used on platforms lacking the global listener.
+   * The method defined by the user is still called afterwards.
+   * @param name Name of the method, e.g. `onError`
+   * @param handler Receives the first argument of the method
+   * @param onlyIfDefined Don't add the method if the user has not defined it
+   */
+  private _fillAppMethod(name: string, handler: (arg: any) => void, onlyIfDefined: boolean = false): void {
+    logger.log(`Global Handler attached: App.${name}`);
+
+    this._teardowns.push(
+      addInstrumentationHandler("App", (options: ConstructorOptions) => {
+        if (onlyIfDefined && typeof options[name] !== "function") {
+          return;
+        }
+        fillMethod(options, name, (original?: Function) =>
+          function(this: any, ...args: any[]): any {
+            handler(args[0]);
+            return original && original.apply(this, args);
+          });
+      }),
+    );
+  }
+
   /** JSDoc */
   private _installGlobalOnMemoryWarningHandler(): void {
     if (this._onMemoryWarningHandlerInstalled) {
@@ -156,7 +243,7 @@ export class GlobalHandlers implements Integration {
     if (!!sdk.onMemoryWarning) {
       const currentHub = getCurrentHub();
 
-      sdk.onMemoryWarning(({ level = -1 }: { level: number }) => {
+      this._teardowns.push(addListener("MemoryWarning", ({ level = -1 }: { level: number }) => {
         let levelMessage = "没有获取到告警级别信息";
 
         switch (level) {
@@ -173,10 +260,12 @@ export class GlobalHandlers implements Integration {
             return;
         }
 
-        currentHub.setTag("memory-warning", String(level));
-        currentHub.setExtra("message", levelMessage);
-        currentHub.captureMessage(`内存不足告警`);
-      });
+        currentHub.withScope((scope: Scope) => {
+          scope.setTag("memory-warning", String(level));
+          scope.setExtra("message", levelMessage);
+          currentHub.captureMessage(`内存不足告警`, Severity.Warning);
+        });
+      }));
     }
 
     this._onMemoryWarningHandlerInstalled = true;
@@ -0,0 +1,195 @@
+import { getCurrentHub } from "@sentry/core";
+import { Event, Integration } from "@sentry/types";
+import { addExceptionMechanism, isMatchingPattern } from "@sentry/utils";
+
+import { isSentryRequest } from "../helpers";
+import { addInstrumentationHandler, RequestHandlerData, restoreAll, RestoreInstrumentation } from "../instrument";
+
+/** A single status code or an inclusive range of status codes */
+type HttpStatusCodeRange = [number, number] | number;
+
+/** JSDoc */
+interface HttpClientIntegrations {
+  /**
+   * Responses with these status codes are captured.
+   * 响应状态码在该范围内时上报事件，默认为 500-599。
+   */
+  failedRequestStatusCodes?: HttpStatusCodeRange[];
+
+  /**
+   * Only requests whose URL matches one of these patterns are captured.
+   * 仅上报地址匹配其中任一规则的请求。
+   */
+  failedRequestTargets?: Array<string | RegExp>;
+
+  /**
+   * Capture requests which failed without a response (`fail` callback), e.g. timeouts.
+   * 上报未收到响应（触发 fail 回调，如超时、断网）的请求。
+   */
+  captureNetworkErrors?: boolean;
+
+  /**
+   * Values of these request and response headers are not sent.
+   * 不上报这些请求头、响应头的值。
+   */
+  filterHeaders?: string[];
+}
+
+/** Path segments which are numeric ids, uuids or hashes. */
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}|[0-9a-f]{16,})$/i;
+
+/** JSDoc */
+const DEFAULT_FILTER_HEADERS = ["authorization", "cookie", "set-cookie", "x-sentry-auth"];
+
+/**
+ * Captures requests failing with an error status code or without a response as events.
+ * 将返回错误状态码（如 5xx）或请求失败的网络请求作为事件上报，按请求方法和 URL 模板聚合。
+ */
+export class HttpClient implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public name: string = HttpClient.id;
+
+  /**
+   * @inheritDoc
+   */
+  public static id: string = "HttpClient";
+
+  /** JSDoc */
+  private readonly _options: Required<HttpClientIntegrations>;
+
+  /** Removes the instrumentation handlers */
+  private readonly _teardowns: RestoreInstrumentation[] = [];
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: HttpClientIntegrations) {
+    this._options = {
+      captureNetworkErrors: true,
+      failedRequestStatusCodes: [[500, 599]],
+      failedRequestTargets: [/.*/],
+      filterHeaders: DEFAULT_FILTER_HEADERS,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    this._teardowns.push(
+      addInstrumentationHandler("request", (handlerData: RequestHandlerData) => {
+        if (getCurrentHub().getIntegration(HttpClient)) {
+          this._onRequestEnd(handlerData);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Removes the request handler, invoked when the client is closed.
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
+  }
+
+  /** Captures an event for a completed request if it failed. */
+  private _onRequestEnd(handlerData: RequestHandlerData): void {
+    const { options, response, error } = handlerData;
+    if (!handlerData.endTimestamp || isSentryRequest(options.url) || !this._shouldCaptureTarget(options.url)) {
+      return;
+    }
+
+    if (response && this._shouldCaptureStatus(response.statusCode)) {
+      this._captureEvent(handlerData, `HTTP Client Error with status code: ${response.statusCode}`);
+    } else if (!response && error && this._options.captureNetworkErrors) {
+      this._captureEvent(handlerData, `HTTP Client Error: ${error.errMsg}`);
+    }
+  }
+
+  /** JSDoc */
+  private _captureEvent(handlerData: RequestHandlerData, message: string): void {
+    const { options, response, error } = handlerData;
+    const method = options.method ? options.method.toUpperCase() : "GET";
+    const [url, query] = options.url.split("?");
+
+    const event: Event = {
+      contexts: {
+        response: {
+          duration: (handlerData.endTimestamp as number) - handlerData.startTimestamp,
+          ...(response && {
+            headers: this._filterHeaders(response.headers),
+            status_code: response.statusCode,
+          }),
+          ...(error && { errMsg: error.errMsg }),
+          ...(error && error.errCode !== undefined && { errCode: error.errCode }),
+        },
+      },
+      exception: {
+        values: [
+          {
+            type: "HTTPClientError",
+            value: message,
+          },
+        ],
+      },
+      fingerprint: ["http.client", method, getUrlTemplate(url)],
+      request: {
+        headers: this._filterHeaders(options.headers),
+        method,
+        query_string: query,
+        url,
+      },
+      tags: {
+        "http.method": method,
+        ...(response && { "http.status_code": String(response.statusCode) }),
+      },
+    };
+
+    addExceptionMechanism(event, {
+      handled: true,
+      type: "http.client",
+    });
+
+    getCurrentHub().captureEvent(event);
+  }
+
+  /** JSDoc */
+  private _shouldCaptureStatus(status: number): boolean {
+    return this._options.failedRequestStatusCodes.some((range: HttpStatusCodeRange) =>
+      typeof range === "number" ? range === status : status >= range[0] && status <= range[1],
+    );
+  }
+
+  /** JSDoc */
+  private _shouldCaptureTarget(url: string): boolean {
+    return this._options.failedRequestTargets.some((target: string | RegExp) => isMatchingPattern(url, target));
+  }
+
+  /** Replaces the values of filtered headers. */
+  private _filterHeaders(headers: { [key: string]: string } = {}): { [key: string]: string } {
+    const filterHeaders = this._options.filterHeaders.map((header: string) => header.toLowerCase());
+    const filtered: { [key: string]: string } = {};
+    Object.keys(headers).forEach((key: string) => {
+      filtered[key] = filterHeaders.indexOf(key.toLowerCase()) > -1 ? "[Filtered]" : headers[key];
+    });
+    return filtered;
+  }
+}
+
+/**
+ * Replaces ids in the path of an URL so requests to the same endpoint are grouped,
+ * e.g. `https://api.example.com/users/42` becomes `https://api.example.com/users/{id}`.
+ */
+function getUrlTemplate(url: string): string {
+  const [, origin = "", path = ""] = /^([a-z][\w+.-]*:\/\/[^/]*)?(.*)$/i.exec(url) || [];
+  return (
+    origin +
+    path
+      .split("/")
+      .map((segment: string) => (ID_SEGMENT.test(segment) ? "{id}" : segment))
+      .join("/")
+  );
+}
@@ -1,9 +1,16 @@
 export { GlobalHandlers } from "./globalhandlers";
 export { TryCatch } from "./trycatch";
+export { Component } from "./component";
 export { LinkedErrors } from "./linkederrors";
 
 export { System } from "./system";
 export { Router } from "./router";
 export { IgnoreMpcrawlerErrors } from "./ignoreMpcrawlerErrors";
+export { Sessions } from "./sessions";
+export { Tracing } from "./tracing";
+export { NativePerformance } from "./nativeperformance";
+export { SetData } from "./setdata";
+export { DataScrubber } from "./datascrubber";
+export { HttpClient } from "./httpclient";
 
 export { Breadcrumbs } from "./breadcrumbs";
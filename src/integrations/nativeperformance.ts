@@ -0,0 +1,251 @@
+import { addGlobalEventProcessor, getCurrentHub } from "@sentry/core";
+import { addExtensionMethods, Transaction } from "@sentry/tracing";
+import { Event, Integration, Measurements } from "@sentry/types";
+import { logger } from "@sentry/utils";
+
+import { appName, sdk } from "../crossPlatform";
+
+/**
+ * An entry of the platform Performance API.
+ * https://developers.weixin.qq.com/miniprogram/dev/api/base/performance/PerformanceEntry.html
+ */
+interface PerformanceEntry {
+  entryType: "navigation" | "render" | "script" | string;
+  name: string;
+  startTime: number;
+  duration: number;
+  path?: string;
+}
+
+/** JSDoc */
+interface NativePerformanceIntegrations {
+  /**
+   * Send the app launch metrics as a standalone `app.start` transaction, even without page-load transactions.
+   * The transaction is sampled by `tracesSampleRate` / `tracesSampler`.
+   * 将小程序启动耗时作为单独的 transaction 上报，不依赖 Tracing 集成，同样受 `tracesSampleRate` 采样率控制。
+   */
+  startupTransaction?: boolean;
+}
+
+/** Maximum number of entries kept while waiting for the matching transaction. */
+const MAX_ENTRIES = 100;
+
+/** Entry names reported as the duration of the entry. */
+const DURATION_MEASUREMENTS: { [name: string]: string } = {
+  appLaunch: "app_start_cold",
+  evaluateScript: "evaluate_script",
+  firstRender: "first_render",
+  route: "route",
+};
+
+/** Entry names reported relative to the start of the page navigation. */
+const PAINT_MEASUREMENTS: { [name: string]: string } = {
+  firstContentfulPaint: "fcp",
+  firstPaint: "fp",
+  largestContentfulPaint: "lcp",
+};
+
+/** Whether the event processor is registered, it outlives the integration when the client is closed and set up again. */
+let eventProcessorAdded = false;
+
+/** Returns the page path of an entry or transaction name without leading slash and query. */
+function normalizePath(path: string = ""): string {
+  return path.replace(/^\//, "").split("?")[0];
+}
+
+/**
+ * Startup and render metrics from the platform Performance API (e.g. `wx.getPerformance()`).
+ * 读取小程序 Performance API 中的启动、渲染耗时，作为 measurements 添加到 Tracing 集成创建的
+ * pageload / navigation transaction 上。
+ */
+export class NativePerformance implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public name: string = NativePerformance.id;
+
+  /**
+   * @inheritDoc
+   */
+  public static id: string = "NativePerformance";
+
+  /** JSDoc */
+  private readonly _options: NativePerformanceIntegrations;
+
+  /** The platform performance object. */
+  private _performance: any;
+
+  /** The observer of the platform performance object. */
+  private _observer: any;
+
+  /** Entries which have not been attached to a transaction yet. */
+  private _entries: PerformanceEntry[] = [];
+
+  /** Whether the app launch metrics have been reported. */
+  private _launchReported: boolean = false;
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: NativePerformanceIntegrations) {
+    this._options = {
+      startupTransaction: false,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    if (!sdk.getPerformance) {
+      logger.warn(`getPerformance is not supported on ${appName}`);
+      return;
+    }
+
+    if (this._options.startupTransaction) {
+      // `hub.startTransaction()` is added by @sentry/tracing, the Tracing integration may not be installed
+      addExtensionMethods();
+    }
+
+    try {
+      this._performance = sdk.getPerformance();
+      this._observer = this._performance.createObserver((entryList: any) => {
+        this._addEntries(entryList.getEntries());
+      });
+      this._observer.observe({ entryTypes: ["navigation", "render", "script"] });
+    } catch (e) {
+      logger.warn(`sentry-miniapp observe performance fail: ${e}`);
+      return;
+    }
+
+    if (eventProcessorAdded) {
+      return;
+    }
+    eventProcessorAdded = true;
+    addGlobalEventProcessor((event: Event) => {
+      const self = getCurrentHub().getIntegration(NativePerformance);
+      if (self && event.type === "transaction") {
+        return self._addMeasurements(event);
+      }
+      return event;
+    });
+  }
+
+  /**
+   * Stops observing the platform performance entries, invoked when the client is closed.
+   */
+  public teardown(): void {
+    if (this._observer && this._observer.disconnect) {
+      try {
+        this._observer.disconnect();
+      } catch (e) {
+        // no-empty
+      }
+    }
+    this._observer = undefined;
+  }
+
+  /** Buffers new entries, reporting the app launch as standalone transaction if enabled. */
+  private _addEntries(entries: PerformanceEntry[]): void {
+    const known = this._entries;
+    entries.forEach((entry: PerformanceEntry) => {
+      const exists = known.some(
+        (item: PerformanceEntry) => item.name === entry.name && item.startTime === entry.startTime,
+      );
+      if (!exists) {
+        known.push(entry);
+      }
+    });
+    this._entries = known.slice(-MAX_ENTRIES);
+
+    if (this._options.startupTransaction && !this._launchReported) {
+      const launch = this._find((entry: PerformanceEntry) => entry.name === "appLaunch");
+      if (launch) {
+        this._captureStartupTransaction(launch);
+      }
+    }
+  }
+
+  /** Attaches the metrics of the transaction's page to page-load and navigation transactions. */
+  private _addMeasurements(event: Event): Event {
+    const op = event.contexts && event.contexts.trace && event.contexts.trace.op;
+    if (op !== "pageload" && op !== "navigation") {
+      return event;
+    }
+
+    // entries are delivered asynchronously, pick up those already buffered by the platform
+    if (this._performance && this._performance.getEntries) {
+      try {
+        this._addEntries(this._performance.getEntries());
+      } catch (e) {
+        // no-empty
+      }
+    }
+
+    const path = normalizePath(event.transaction);
+    const measurements: Measurements = {};
+    const navigation = this._find(
+      (entry: PerformanceEntry) =>
+        entry.entryType === "navigation" && normalizePath(entry.path) === path,
+    );
+
+    this._entries = this._entries.filter((entry: PerformanceEntry) => {
+      const isLaunch = entry.name === "appLaunch";
+      if (isLaunch ? op !== "pageload" || this._launchReported : normalizePath(entry.path) !== path) {
+        return true;
+      }
+
+      if (DURATION_MEASUREMENTS[entry.name]) {
+        measurements[DURATION_MEASUREMENTS[entry.name]] = { value: entry.duration };
+      } else if (PAINT_MEASUREMENTS[entry.name] && navigation) {
+        measurements[PAINT_MEASUREMENTS[entry.name]] = { value: entry.startTime - navigation.startTime };
+      } else {
+        return true;
+      }
+      this._launchReported = this._launchReported || isLaunch;
+      return false;
+    });
+
+    if (Object.keys(measurements).length) {
+      event.measurements = { ...event.measurements, ...measurements };
+    }
+    return event;
+  }
+
+  /** Sends the app launch as an `app.start` transaction. */
+  private _captureStartupTransaction(launch: PerformanceEntry): void {
+    this._launchReported = true;
+    this._entries = this._entries.filter((entry: PerformanceEntry) => entry !== launch);
+
+    const measurements: Measurements = {
+      app_start_cold: { value: launch.duration },
+    };
+    const script = this._find((entry: PerformanceEntry) => entry.name === "evaluateScript");
+    if (script) {
+      measurements.evaluate_script = { value: script.duration };
+    }
+
+    // started through the hub so `tracesSampleRate` / `tracesSampler` apply
+    const transaction = getCurrentHub().startTransaction({
+      name: "App Launch",
+      op: "app.start",
+      startTimestamp: launch.startTime / 1000,
+      tags: {
+        "miniapp.platform": appName,
+      },
+    }) as Transaction;
+    transaction.setMeasurements(measurements);
+    transaction.finish((launch.startTime + launch.duration) / 1000);
+  }
+
+  /** JSDoc */
+  private _find(predicate: (entry: PerformanceEntry) => boolean): PerformanceEntry | undefined {
+    for (const entry of this._entries) {
+      if (predicate(entry)) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+}
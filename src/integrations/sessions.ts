@@ -0,0 +1,142 @@
+import { getCurrentHub } from "@sentry/core";
+import { Integration } from "@sentry/types";
+import { logger } from "@sentry/utils";
+
+import { addListener, sdk } from "../crossPlatform";
+import { restoreAll, RestoreInstrumentation } from "../instrument";
+
+/** JSDoc */
+interface SessionsIntegrations {
+  /**
+   * Time in ms the app may stay in background before the session is ended.
+   * 小程序切到后台超过该时长（毫秒）后结束当前 session，再次切回前台时开始新的 session。
+   */
+  backgroundTimeout?: number;
+}
+
+/**
+ * Release health sessions driven by the app show / hide lifecycle.
+ * 基于小程序 onAppShow / onAppHide 生命周期的 session 统计，用于 Releases 页面的 crash free 数据。
+ *
+ * Errors and crashes are counted by the client: every captured exception marks the
+ * session as errored, unhandled ones (e.g. captured by GlobalHandlers) as crashed.
+ */
+export class Sessions implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public name: string = Sessions.id;
+
+  /**
+   * @inheritDoc
+   */
+  public static id: string = "Sessions";
+
+  /** JSDoc */
+  private readonly _options: Required<SessionsIntegrations>;
+
+  /** Timestamp in ms the app went to background, 0 while in foreground. */
+  private _hiddenAt: number = 0;
+
+  /** Timer ending the session while in background. */
+  private _endTimer: any = 0;
+
+  /** Whether there is an active session. */
+  private _active: boolean = false;
+
+  /** Removes the app show / hide listeners */
+  private readonly _teardowns: RestoreInstrumentation[] = [];
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: SessionsIntegrations) {
+    this._options = {
+      backgroundTimeout: 30000,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    const client = getCurrentHub().getClient();
+    if (!client || !client.getOptions().release) {
+      logger.warn("Sessions integration requires the `release` option, sessions are not tracked");
+      return;
+    }
+
+    this._startSession();
+
+    if (sdk.onAppShow) {
+      this._teardowns.push(addListener("AppShow", () => this._onAppShow()));
+    }
+
+    if (sdk.onAppHide) {
+      this._teardowns.push(addListener("AppHide", () => this._onAppHide()));
+    }
+  }
+
+  /**
+   * Removes the lifecycle listeners and the pending timer, invoked when the client is closed.
+   * The session is not ended, `close()` has already flushed it.
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
+    if (this._endTimer) {
+      clearTimeout(this._endTimer);
+      this._endTimer = 0;
+    }
+  }
+
+  /** Resumes the current session, or starts a new one if it has been ended in background. */
+  private _onAppShow(): void {
+    if (this._endTimer) {
+      clearTimeout(this._endTimer);
+      this._endTimer = 0;
+    }
+
+    // timers may not fire while the app is suspended, so check the elapsed time as well
+    if (this._hiddenAt && Date.now() - this._hiddenAt >= this._options.backgroundTimeout) {
+      this._endSession();
+    }
+    this._hiddenAt = 0;
+
+    if (!this._active) {
+      this._startSession();
+    }
+  }
+
+  /** Sends a session update and schedules the end of the session. */
+  private _onAppHide(): void {
+    this._hiddenAt = Date.now();
+
+    if (!this._active) {
+      return;
+    }
+
+    getCurrentHub().captureSession();
+    this._endTimer = setTimeout(() => {
+      this._endTimer = 0;
+      this._endSession();
+    }, this._options.backgroundTimeout);
+  }
+
+  /** JSDoc */
+  private _startSession(): void {
+    const hub = getCurrentHub();
+    hub.startSession();
+    hub.captureSession();
+    this._active = true;
+  }
+
+  /** JSDoc */
+  private _endSession(): void {
+    if (!this._active) {
+      return;
+    }
+    getCurrentHub().endSession();
+    this._active = false;
+  }
+}
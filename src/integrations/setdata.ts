@@ -0,0 +1,236 @@
+import { getCurrentHub } from "@sentry/core";
+import { getActiveTransaction, Span, Transaction } from "@sentry/tracing";
+import { Integration, Severity } from "@sentry/types";
+import { logger } from "@sentry/utils";
+
+import { appName } from "../crossPlatform";
+import {
+  addInstrumentationHandler,
+  ConstructorOptions,
+  fillComponentLifetime,
+  fillMethod,
+  restoreAll,
+  RestoreInstrumentation,
+} from "../instrument";
+import { byteLength } from "../transports/offline";
+
+/** JSDoc */
+interface SetDataIntegrations {
+  /**
+   * Record a `ui.setData` breadcrumb for every call. Disabled by default, pages calling `setData`
+   * on every scroll or timer tick would push all other breadcrumbs out.
+   * 每次调用 setData 时记录面包屑，默认关闭。
+   */
+  breadcrumbs?: boolean;
+
+  /**
+   * Record a `ui.setData` span on the active transaction, requires the Tracing integration.
+   * 在当前 transaction 上记录 setData 的 span，需要同时添加 Tracing 集成。
+   */
+  spans?: boolean;
+
+  /**
+   * A warning event is captured when the payload of a single call exceeds this size in bytes, 0 disables it.
+   * 单次 setData 数据超过该字节数时上报一条 warning 事件，设为 0 时不上报。
+   */
+  maxPayloadSize?: number;
+}
+
+/** Page or component instance whose `setData` is instrumented */
+interface SetDataInstance {
+  [key: string]: any;
+  route?: string;
+  __route__?: string;
+  is?: string;
+  setData?: Function;
+}
+
+/** Measurements of a single `setData` call */
+interface SetDataMetrics {
+  target: string;
+  size: number;
+  keys: number;
+  latency: number;
+}
+
+/** Maximum number of keys listed in the warning event. */
+const MAX_REPORTED_KEYS = 20;
+
+/** Lifetime of components in which `setData` is available. */
+const COMPONENT_READY_LIFETIME = appName === "alipay" || appName === "dingtalk" ? "didMount" : "attached";
+
+/** Returns the route of a page or the path of a component. */
+function getTarget(instance: SetDataInstance): string {
+  return instance.route || instance.__route__ || instance.is || "unknown";
+}
+
+/**
+ * Payload size and latency of `this.setData` calls in pages and components.
+ * 监控页面、组件中 setData 的数据大小（字节数、key 数量）和回调耗时，过大的 setData 是页面卡顿的主要原因。
+ */
+export class SetData implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public name: string = SetData.id;
+
+  /**
+   * @inheritDoc
+   */
+  public static id: string = "SetData";
+
+  /** JSDoc */
+  private readonly _options: Required<SetDataIntegrations>;
+
+  /** Removes the instrumentation handlers */
+  private readonly _teardowns: RestoreInstrumentation[] = [];
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: SetDataIntegrations) {
+    this._options = {
+      breadcrumbs: false,
+      maxPayloadSize: 256 * 1024,
+      spans: true,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    this._teardowns.push(
+      addInstrumentationHandler("Page", (options: ConstructorOptions) => {
+        fillMethod(options, "onLoad", (original?: Function) => this._wrapLifetime(original));
+      }),
+      addInstrumentationHandler("Component", (options: ConstructorOptions) => {
+        fillComponentLifetime(options, COMPONENT_READY_LIFETIME, (original?: Function) => this._wrapLifetime(original));
+      }),
+    );
+  }
+
+  /**
+   * Removes the `Page()` / `Component()` handlers, invoked when the client is closed.
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
+  }
+
+  /** Wraps a lifetime method so `setData` of the instance is instrumented before it runs. */
+  private _wrapLifetime(original?: Function): Function {
+    const self = this;
+    return function(this: SetDataInstance, ...args: any[]): any {
+      self._instrumentInstance(this);
+      return original && original.apply(this, args);
+    };
+  }
+
+  /** Replaces `setData` of a page or component instance. */
+  private _instrumentInstance(instance: SetDataInstance): void {
+    const originalSetData = instance.setData;
+    if (typeof originalSetData !== "function" || (originalSetData as any).__sentry__) {
+      return;
+    }
+
+    const self = this;
+    const wrapped = function(this: SetDataInstance, data: any, callback?: Function): any {
+      if (!getCurrentHub().getIntegration(SetData)) {
+        return originalSetData.call(this, data, callback);
+      }
+
+      // the payload is measured in the callback, once the platform has rendered it, to keep the call itself cheap
+      const instance = this;
+      const startTimestamp = Date.now();
+      const span = self._startSpan(instance);
+
+      return originalSetData.call(this, data, function(this: any, ...args: any[]): any {
+        const metrics = self._measure(instance, data, Date.now() - startTimestamp);
+        if (span) {
+          span.setData("keys", metrics.keys);
+          span.setData("size", metrics.size);
+          span.setData("latency", metrics.latency);
+          span.finish();
+        }
+        self._record(metrics, data);
+        return callback && callback.apply(this, args);
+      });
+    };
+    (wrapped as any).__sentry__ = true;
+    (wrapped as any).__sentry_original__ = originalSetData;
+
+    try {
+      instance.setData = wrapped;
+    } catch (e) {
+      logger.warn(`sentry-miniapp fail to instrument setData: ${e}`);
+    }
+  }
+
+  /** Computes the size of a finished `setData` call. */
+  private _measure(instance: SetDataInstance, data: any, latency: number): SetDataMetrics {
+    let size = -1;
+    try {
+      size = byteLength(JSON.stringify(data) || "");
+    } catch (e) {
+      // circular data can't be sent by the platform either, report it as unknown size
+    }
+
+    return {
+      keys: data && typeof data === "object" ? Object.keys(data).length : 0,
+      latency,
+      size,
+      target: getTarget(instance),
+    };
+  }
+
+  /** Starts a span on the active transaction if there is one. */
+  private _startSpan(instance: SetDataInstance): Span | undefined {
+    if (!this._options.spans) {
+      return undefined;
+    }
+
+    const transaction = getActiveTransaction<Transaction>();
+    return (
+      transaction &&
+      transaction.startChild({
+        description: getTarget(instance),
+        op: "ui.setData",
+      })
+    );
+  }
+
+  /** Adds the breadcrumb of a finished call and captures a warning if its payload is too large. */
+  private _record(metrics: SetDataMetrics, data: any): void {
+    const hub = getCurrentHub();
+
+    if (this._options.breadcrumbs) {
+      hub.addBreadcrumb(
+        {
+          category: "ui.setData",
+          data: { ...metrics },
+          message: metrics.target,
+        },
+        {
+          input: data,
+        },
+      );
+    }
+
+    const { maxPayloadSize } = this._options;
+    if (maxPayloadSize > 0 && metrics.size > maxPayloadSize) {
+      hub.withScope(scope => {
+        scope.setContext("setData", {
+          ...metrics,
+          dataKeys: Object.keys(data).slice(0, MAX_REPORTED_KEYS),
+          maxPayloadSize,
+        });
+        scope.setFingerprint(["setData-payload-size", metrics.target]);
+        hub.captureMessage(
+          `setData payload of ${metrics.target} exceeds ${maxPayloadSize} bytes: ${metrics.size} bytes`,
+          Severity.Warning,
+        );
+      });
+    }
+  }
+}
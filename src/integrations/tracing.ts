@@ -0,0 +1,270 @@
+import { getCurrentHub } from "@sentry/core";
+import { addExtensionMethods, getActiveTransaction, Span, SpanStatus, Transaction } from "@sentry/tracing";
+import { Integration } from "@sentry/types";
+import { isMatchingPattern } from "@sentry/utils";
+
+import { appName } from "../crossPlatform";
+import { getCurrentPage, MINA_PAGE_LIFE_CYCLE } from "../env";
+import { isSentryRequest } from "../helpers";
+import {
+  addInstrumentationHandler,
+  ConstructorOptions,
+  fillMethod,
+  RequestHandlerData,
+  restoreAll,
+  RestoreInstrumentation,
+} from "../instrument";
+
+/** JSDoc */
+interface TracingIntegrations {
+  /**
+   * Create a transaction for every page from `onLoad` to `onReady`.
+   * 为每个页面创建从 onLoad 到 onReady 的 transaction。
+   */
+  pageLoad?: boolean;
+
+  /**
+   * Create an `http.client` span for every request made during a transaction.
+   * 为 transaction 期间发起的每个请求创建 http.client span。
+   */
+  traceRequests?: boolean;
+
+  /**
+   * `sentry-trace` and `baggage` headers are added to requests whose URL matches one of these patterns.
+   * Requests sent after the page transaction finished (e.g. from a tap) continue the trace of the page.
+   * Empty by default: requests go to absolute `https://` URLs, list the backend hosts which accept the headers.
+   * 请求地址匹配其中任一规则时，添加 sentry-trace、baggage 请求头，将 trace 传递给后端服务。
+   * 页面 transaction 结束后（如点击事件中）发起的请求沿用当前页面的 trace，但不会记录 span。
+   * 默认为空，不会添加请求头，需配置后端域名（如 `["api.example.com"]`）。
+   */
+  tracingOrigins?: Array<string | RegExp>;
+}
+
+/** Page instance the transaction of the current visit is stored on */
+interface PageInstance {
+  route?: string;
+  __route__?: string;
+  __sentry_transaction__?: Transaction;
+  /** Transaction of the page visit, kept after it finished so later requests of the page continue its trace. */
+  __sentry_trace_transaction__?: Transaction;
+}
+
+/**
+ * Performance monitoring for mini program pages.
+ * 小程序页面性能监控，需要设置 `tracesSampleRate` 或 `tracesSampler` 选项。
+ */
+export class Tracing implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public name: string = Tracing.id;
+
+  /**
+   * @inheritDoc
+   */
+  public static id: string = "Tracing";
+
+  /** JSDoc */
+  private readonly _options: TracingIntegrations;
+
+  /** Whether the first page has been loaded, later pages are navigations. */
+  private _pageLoaded: boolean = false;
+
+  /** Removes the instrumentation handlers */
+  private readonly _teardowns: RestoreInstrumentation[] = [];
+
+  /** Transaction of the page being shown, requests sent after it finished propagate its trace. */
+  private _pageTransaction?: Transaction;
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: TracingIntegrations) {
+    this._options = {
+      pageLoad: true,
+      traceRequests: true,
+      tracingOrigins: [],
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    addExtensionMethods();
+
+    if (this._options.pageLoad) {
+      this._teardowns.push(
+        addInstrumentationHandler("Page", (options: ConstructorOptions) => this._instrumentPageLifeCycle(options)),
+      );
+    }
+
+    if (this._options.traceRequests) {
+      this._teardowns.push(
+        addInstrumentationHandler("request", (handlerData: RequestHandlerData) => this._traceRequest(handlerData)),
+      );
+    }
+  }
+
+  /**
+   * Removes the `Page()` and request handlers, invoked when the client is closed.
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
+    this._pageTransaction = undefined;
+  }
+
+  /** Starts a span when a request is sent, finishing it with the response status once it completes. */
+  private _traceRequest(handlerData: RequestHandlerData): void {
+    const { options } = handlerData;
+    if (!getCurrentHub().getIntegration(Tracing) || isSentryRequest(options.url)) {
+      return;
+    }
+
+    if (handlerData.endTimestamp) {
+      const requestSpan: Span | undefined = handlerData.__sentry_span__;
+      if (requestSpan) {
+        if (handlerData.response) {
+          requestSpan.setHttpStatus(handlerData.response.statusCode);
+        } else {
+          requestSpan.setStatus(SpanStatus.UnknownError);
+          requestSpan.setData("error", handlerData.error && handlerData.error.errMsg);
+        }
+        requestSpan.finish();
+      }
+      return;
+    }
+
+    const transaction = getActiveTransaction<Transaction>();
+    if (!transaction) {
+      // e.g. requests sent from a tap once the page has loaded, continue the trace of the page without a span
+      if (this._pageTransaction) {
+        this._addTraceHeaders(handlerData, this._pageTransaction.toTraceparent(), this._pageTransaction);
+      }
+      return;
+    }
+
+    const method = options.method ? options.method.toUpperCase() : "GET";
+    const span = transaction.startChild({
+      data: {
+        method,
+        type: "request",
+        url: options.url,
+      },
+      description: `${method} ${options.url}`,
+      op: "http.client",
+    });
+    handlerData.__sentry_span__ = span;
+    this._addTraceHeaders(handlerData, span.toTraceparent(), transaction);
+  }
+
+  /** Adds the `sentry-trace` and `baggage` headers to requests matching `tracingOrigins`. */
+  private _addTraceHeaders(handlerData: RequestHandlerData, traceparent: string, transaction: Transaction): void {
+    const { options } = handlerData;
+    const tracingOrigins = this._options.tracingOrigins || [];
+    if (tracingOrigins.some((origin: string | RegExp) => isMatchingPattern(options.url, origin))) {
+      const headers = options.headers || {};
+      const baggage = getBaggage(transaction);
+      options.headers = {
+        ...headers,
+        "sentry-trace": traceparent,
+        ...(baggage && { baggage: headers.baggage ? `${headers.baggage},${baggage}` : baggage }),
+      };
+    }
+  }
+
+  /** Records every page lifecycle method as span of the page transaction. */
+  private _instrumentPageLifeCycle(options: ConstructorOptions): void {
+    const self = this;
+
+    MINA_PAGE_LIFE_CYCLE.forEach((name: string) => {
+      fillMethod(options, name, (original?: Function) =>
+        function(this: PageInstance, ...args: any[]): any {
+          if (name === "onLoad") {
+            self._startPageTransaction(this);
+          } else if (name === "onShow" && this.__sentry_trace_transaction__) {
+            // back to a page loaded before
+            self._pageTransaction = this.__sentry_trace_transaction__;
+          }
+
+          const transaction = this.__sentry_transaction__;
+          const span = transaction && transaction.startChild({ op: "ui.lifecycle", description: name });
+
+          try {
+            return original && original.apply(this, args);
+          } finally {
+            if (span) {
+              span.finish();
+            }
+            if (name === "onReady") {
+              self._finishPageTransaction(this, SpanStatus.Ok);
+            } else if (name === "onUnload") {
+              self._finishPageTransaction(this, SpanStatus.Cancelled);
+            }
+          }
+        });
+    });
+  }
+
+  /** Starts the transaction of a page visit and puts it on the scope. */
+  private _startPageTransaction(page: PageInstance): void {
+    const hub = getCurrentHub();
+    if (!hub.getIntegration(Tracing)) {
+      return;
+    }
+
+    const transaction = hub.startTransaction({
+      name: page.route || page.__route__ || getCurrentPage(),
+      op: this._pageLoaded ? "navigation" : "pageload",
+      tags: {
+        "miniapp.platform": appName,
+      },
+    }) as Transaction;
+    this._pageLoaded = true;
+
+    page.__sentry_transaction__ = transaction;
+    page.__sentry_trace_transaction__ = transaction;
+    this._pageTransaction = transaction;
+    hub.configureScope(scope => scope.setSpan(transaction));
+  }
+
+  /** Finishes the transaction of a page visit and takes it off the scope. */
+  private _finishPageTransaction(page: PageInstance, status: SpanStatus): void {
+    const transaction = page.__sentry_transaction__;
+    if (!transaction) {
+      return;
+    }
+
+    page.__sentry_transaction__ = undefined;
+    transaction.setStatus(status);
+    transaction.finish();
+
+    getCurrentHub().configureScope(scope => {
+      if (scope.getTransaction() === transaction) {
+        scope.setSpan(undefined);
+      }
+    });
+  }
+}
+
+/**
+ * Builds the `baggage` header carrying the dynamic sampling context of a transaction.
+ */
+function getBaggage(transaction: Transaction): string {
+  const client = getCurrentHub().getClient();
+  const options = (client && client.getOptions()) || {};
+  const dsn = client && client.getDsn();
+  const entries: { [key: string]: string | undefined } = {
+    environment: options.environment,
+    public_key: dsn && dsn.publicKey,
+    release: options.release,
+    trace_id: transaction.traceId,
+    transaction: transaction.name,
+  };
+
+  return Object.keys(entries)
+    .filter((key: string) => !!entries[key])
+    .map((key: string) => `sentry-${key}=${encodeURIComponent(entries[key] as string)}`)
+    .join(",");
+}
@@ -1,13 +1,41 @@
-import { Integration, WrappedFunction } from "@sentry/types";
+import { Integration, Mechanism, WrappedFunction } from "@sentry/types";
 import { fill, getGlobalObject } from "@sentry/utils";
 
 import { wrap } from "../helpers";
+import {
+  addInstrumentationHandler,
+  ConstructorOptions,
+  restoreAll,
+  RestoreInstrumentation,
+  unfill,
+} from "../instrument";
+
+/** JSDoc */
+interface TryCatchIntegrations {
+  /**
+   * Wrap lifecycle hooks and methods passed to `App()`.
+   * 捕获 App() 中生命周期函数及自定义方法抛出的异常。
+   */
+  App?: boolean;
+
+  /**
+   * Wrap lifecycle hooks and event handlers passed to `Page()`.
+   * 捕获 Page() 中生命周期函数及事件处理函数（如 bindtap）抛出的异常，并记录页面路由。
+   */
+  Page?: boolean;
+}
 
 /** Wrap timer functions and event targets to catch errors and provide better meta data */
 export class TryCatch implements Integration {
   /** JSDoc */
   private _ignoreOnError: number = 0;
 
+  /** JSDoc */
+  private readonly _options: TryCatchIntegrations;
+
+  /** Restores the wrapped timers, event targets and removes the instrumentation handlers */
+  private readonly _teardowns: RestoreInstrumentation[] = [];
+
   /**
    * @inheritDoc
    */
@@ -18,6 +46,48 @@ export class TryCatch implements Integration {
    */
   public static id: string = "TryCatch";
 
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: TryCatchIntegrations) {
+    this._options = {
+      App: true,
+      Page: true,
+      ...options,
+    };
+  }
+
+  /**
+   * Wraps every function of `App()` / `Page()` options, the mechanism names the method and
+   * the route of the page instance it was called on.
+   */
+  private _wrapConstructorOptions(target: "App" | "Page", options: ConstructorOptions): void {
+    Object.keys(options).forEach((name: string) => {
+      const original = options[name];
+      if (typeof original !== "function") {
+        return;
+      }
+
+      const data: { [key: string]: string } = {
+        function: name,
+        handler: getFunctionName(original),
+        target,
+      };
+      const mechanism: Mechanism = {
+        data,
+        handled: false,
+        type: "instrument",
+      };
+
+      options[name] = wrap(original, { mechanism }, function(this: any): void {
+        const route = this && (this.route || this.__route__);
+        if (route) {
+          data.route = route;
+        }
+      });
+    });
+  }
+
   /** JSDoc */
   private _wrapTimeFunction(original: () => void): () => number {
     return function(this: any, ...args: any[]): number {
@@ -64,6 +134,11 @@ export class TryCatch implements Integration {
       return;
     }
 
+    this._teardowns.push(() => {
+      unfill(proto, "addEventListener");
+      unfill(proto, "removeEventListener");
+    });
+
     fill(proto, "addEventListener", function(
       original: () => void
     ): (
@@ -157,6 +232,11 @@ export class TryCatch implements Integration {
     fill(global, "setTimeout", this._wrapTimeFunction.bind(this));
     fill(global, "setInterval", this._wrapTimeFunction.bind(this));
     fill(global, "requestAnimationFrame", this._wrapRAF.bind(this));
+    this._teardowns.push(() => {
+      unfill(global, "setTimeout");
+      unfill(global, "setInterval");
+      unfill(global, "requestAnimationFrame");
+    });
 
     [
       "EventTarget",
@@ -189,6 +269,25 @@ export class TryCatch implements Integration {
       "XMLHttpRequestEventTarget",
       "XMLHttpRequestUpload"
     ].forEach(this._wrapEventTarget.bind(this));
+
+    if (this._options.App) {
+      this._teardowns.push(
+        addInstrumentationHandler("App", (options: ConstructorOptions) => this._wrapConstructorOptions("App", options)),
+      );
+    }
+
+    if (this._options.Page) {
+      this._teardowns.push(
+        addInstrumentationHandler("Page", (options: ConstructorOptions) => this._wrapConstructorOptions("Page", options)),
+      );
+    }
+  }
+
+  /**
+   * Restores the timer functions and event targets, invoked when the client is closed.
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
   }
 }
 
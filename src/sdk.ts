@@ -9,6 +9,7 @@ import { MiniappOptions } from "./backend";
 import { MiniappClient, ReportDialogOptions } from "./client";
 import { wrap as internalWrap } from "./helpers";
 import {
+  Component,
   GlobalHandlers,
   IgnoreMpcrawlerErrors,
   LinkedErrors,
@@ -16,11 +17,14 @@ import {
   System,
   TryCatch,
 } from "./integrations/index";
+import { Attachment, UserFeedback } from "./transports/index";
+import { SDK_NAME, SDK_VERSION } from "./version";
 
 export const defaultIntegrations = [
   new CoreIntegrations.InboundFilters(),
   new CoreIntegrations.FunctionToString(),
   new TryCatch(),
+  new Component(),
   new GlobalHandlers(),
   new LinkedErrors(),
 
@@ -93,6 +97,13 @@ export function init(options: MiniappOptions = {}): void {
   // https://github.com/lizhiyao/sentry-miniapp/issues/23
   options.normalizeDepth = options.normalizeDepth || 5;
 
+  options._metadata = options._metadata || {};
+  // 仅用于 envelope 头部，事件中的 sdk 信息由 MiniappClient 添加
+  options._metadata.sdk = options._metadata.sdk || {
+    name: SDK_NAME,
+    version: SDK_VERSION
+  };
+
   initAndBind(MiniappClient, options);
 }
 
@@ -121,6 +132,33 @@ export function lastEventId(): string | undefined {
   return getCurrentHub().lastEventId();
 }
 
+/**
+ * Sends user feedback for a previously captured event, requires the `envelope` or `tunnel` option.
+ * 上报用户对某个事件的反馈，需开启 `envelope` 或 `tunnel` 选项。
+ *
+ * @param feedback The feedback, `event_id` identifies the event it belongs to.
+ */
+export function captureUserFeedback(feedback: UserFeedback): void {
+  const client = getCurrentHub().getClient<MiniappClient>();
+  if (client) {
+    client.captureUserFeedback(feedback);
+  }
+}
+
+/**
+ * Sends attachments for a previously captured event, requires the `envelope` or `tunnel` option.
+ * 为某个事件上报附件（仅支持文本内容），需开启 `envelope` 或 `tunnel` 选项。
+ *
+ * @param attachments The attachments to send.
+ * @param eventId The id of the event the attachments belong to, defaults to the last captured event.
+ */
+export function captureAttachments(attachments: Attachment[], eventId?: string): void {
+  const client = getCurrentHub().getClient<MiniappClient>();
+  if (client) {
+    client.captureAttachments(attachments, eventId);
+  }
+}
+
 /**
  * A promise that resolves when all current events have been sent.
  * If you provide a timeout and the queue takes longer to drain the promise returns false.
@@ -51,7 +51,96 @@ const winjs = /^\s*at (?:((?:\[object object\])?.+) )?\(?((?:file|ms-appx|https?
 const geckoEval = /(\S+) line (\d+)(?: > eval line \d+)* > eval/i;
 const chromeEval = /\((\S*)(?::(\d+))(?::(\d+))\)/;
 const miniapp = /^\s*at (\w.*) \((\w*.js):(\d*):(\d*)/i;
-const wxApp = /\s?at\s?(.*?)\s?\((.*?\.[a-z]+):(\d+):(\d+)\)/i
+
+/** Parses a line of a mini program stack into a frame */
+interface FrameParser {
+  regex: RegExp;
+  parse(parts: RegExpExecArray): StackFrame;
+}
+
+/** Whether a frame url has a scheme, e.g. `https://`, `tt://`, `webpack:///`, `node:` */
+const urlScheme = /^[a-z][\w+.-]*:/i;
+
+/**
+ * Normalizes frame urls so the same file has the same url on every OS:
+ * - WeChat / QQ base library files carry a query, `WASubContext.js?t=wechat&s=1619000000&v=2.16.1`,
+ *   which changes with every base library release
+ * - Alipay / DingTalk print `appx/af-appx.worker.min.js` on Android and `https://appx/af-appx.worker.min.js` on iOS
+ * - relative urls like `pages/index/index.js` become absolute paths so they match uploaded source maps
+ */
+function normalizeFrameUrl(url: string): string {
+  if (/^(?:https?:\/\/)?[^?]*\/?(?:WASubContext|WAService|WAServiceMainContext)\.js\?/.test(url)) {
+    return normalizeFrameUrl(url.split("?")[0]);
+  }
+  if (/^appx\//.test(url)) {
+    return `https://${url}`;
+  }
+  return urlScheme.test(url) || url[0] === "/" || url[0] === "[" ? url : `/${url}`;
+}
+
+/**
+ * Frame parsers of mini program stacks, tried in order on every line.
+ * Platforms share the engine of the OS, the urls are normalized by `normalizeFrameUrl`.
+ */
+const miniappFrameParsers: FrameParser[] = [
+  // V8 on Android and in the devtools, the function and the parentheses are missing for anonymous functions:
+  //   at Page.onLoad (pages/index/index.js:10:5)                         WeChat / QQ
+  //   at WASubContext.js?t=wechat&s=1619000000&v=2.16.1:2:27063          WeChat base library
+  //   at Object.onLoad (https://appx/af-appx.worker.min.js:1:2000)       Alipay / DingTalk
+  //   at n.onLoad (tt://app-service.js:1:2048)                           ByteDance
+  //   at Page.onLoad (swan-core/master/master.js:1:2048)                 Baidu
+  {
+    regex: /^\s*at (?:(.+?) \()?((?:[a-z][\w+.-]*:\/\/)?[^\s()]+?):(\d+)(?::(\d+))?\)?\s*$/i,
+    parse: (parts: RegExpExecArray): StackFrame => ({
+      url: normalizeFrameUrl(parts[2]),
+      func: parts[1] || UNKNOWN_FUNCTION,
+      args: [],
+      line: +parts[3],
+      column: parts[4] ? +parts[4] : null,
+    }),
+  },
+  // JavaScriptCore on iOS, used by all platforms:
+  //   onLoad@https://usr/app-service.js:10:5
+  //   @https://appx/af-appx.worker.min.js:1:2000
+  //   global code@app-service.js:1:1
+  {
+    regex: /^\s*(.*?)@((?:[a-z][\w+.-]*:\/\/)?[^\s@]+?):(\d+)(?::(\d+))?\s*$/i,
+    parse: (parts: RegExpExecArray): StackFrame => ({
+      url: normalizeFrameUrl(parts[2]),
+      func: parts[1] || UNKNOWN_FUNCTION,
+      args: [],
+      line: +parts[3],
+      column: parts[4] ? +parts[4] : null,
+    }),
+  },
+  // JavaScriptCore native frames:
+  //   forEach@[native code]
+  {
+    regex: /^\s*(.*?)@\[native code\]\s*$/i,
+    parse: (parts: RegExpExecArray): StackFrame => ({
+      url: "[native code]",
+      func: parts[1] || UNKNOWN_FUNCTION,
+      args: [],
+      line: null,
+      column: null,
+    }),
+  },
+];
+
+/** Parses the frames of a mini program stack, lines no parser recognizes are skipped. */
+function parseMiniProgramFrames(input: string): StackFrame[] {
+  const stack: StackFrame[] = [];
+  input.split("\n").forEach((line: string) => {
+    for (const parser of miniappFrameParsers) {
+      const parts = parser.regex.exec(line);
+      if (parts) {
+        stack.push(parser.parse(parts));
+        return;
+      }
+    }
+  });
+  return stack;
+}
 
 /** JSDoc */
 export function computeStackTrace(ex: any): StackTrace {
@@ -99,49 +188,21 @@ export function computeStackTrace(ex: any): StackTrace {
   };
 }
 
-function isStack(str: string): boolean {
-  return ['MiniProgramError', 'app-service', 'WASubContext'].some(s => str.indexOf(s) > -1) || (str.indexOf('at') > -1 && str.indexOf(':') > -1)
-}
-
+/**
+ * Parses stacks of mini program platforms, see `miniappFrameParsers`.
+ * The platform may report the stack in the message (e.g. WeChat `onError` strings), which is tried first.
+ */
 function computeMiniProgramStackTraceFromStackProp(ex: any): StackTrace | null {
-
   if (!ex || !ex.stack) {
     return null;
   }
-  const stack: StackFrame[] = [];
-  let parts: any;
-  let element: any;
-  let lines: any[]
-  try {
-    let message = extractMessage(ex)
-    if (!isStack(message)) {
-      message = ex.stack
-    }
 
-    if (isStack(message)) {
-      lines = message.split('\n')
-      for (let i = 0; i < lines.length; i++) {
-        if ((parts = wxApp.exec(lines[i]))) {
-          // console.log(lines[i], parts);
-          let url = parts[2]
-          if (url[0] !== '/' && url[0] !== 'h') {
-            url = '/' + url
-          }
-          element = {
-            url: url,
-            func: parts[1] || UNKNOWN_FUNCTION,
-            args: [],
-            line: parts[3] ? +parts[3] : null,
-            column: parts[4] ? +parts[4] : null,
-          };
-        } else {
-          continue;
-        }
-        if (!element.func && element.line) {
-          element.func = UNKNOWN_FUNCTION;
-        }
-        stack.push(element);
-      }
+  let stack: StackFrame[] = [];
+  try {
+    const message = extractMessage(ex);
+    stack = typeof message === "string" ? parseMiniProgramFrames(message) : [];
+    if (!stack.length) {
+      stack = parseMiniProgramFrames(ex.stack);
     }
   } catch (e) {
     // empty
@@ -154,7 +215,7 @@ function computeMiniProgramStackTraceFromStackProp(ex: any): StackTrace | null {
   return {
     message: extractMessage(ex),
     name: ex.name,
-    stack: stack,
+    stack,
   };
 }
 
@@ -1,6 +1,19 @@
 import { API } from "@sentry/core";
 import { Event, Response, Transport, TransportOptions } from "@sentry/types";
-import { PromiseBuffer, SentryError } from "@sentry/utils";
+import { logger, parseRetryAfterHeader, PromiseBuffer, SentryError } from "@sentry/utils";
+
+import { restoreAll, RestoreInstrumentation } from "../instrument";
+
+import { OfflineQueueOptions } from "./offline";
+
+/** Transport options of the Sentry Miniapp SDK. */
+export interface MiniappTransportOptions extends TransportOptions {
+  /** Persist events which failed to send and replay them later, see {@link OfflineQueueOptions}. */
+  offline?: boolean | OfflineQueueOptions;
+
+  /** A first-party URL envelopes are posted to instead of the Sentry envelope endpoint. */
+  tunnel?: string;
+}
 
 /** Base Transport class implementation */
 export abstract class BaseTransport implements Transport {
@@ -9,11 +22,27 @@ export abstract class BaseTransport implements Transport {
    */
   public url: string;
 
+  /** Helper to get Sentry API endpoints. */
+  protected readonly _api: API;
+
   /** A simple buffer holding all requests. */
   protected readonly _buffer: PromiseBuffer<Response> = new PromiseBuffer(30);
 
-  public constructor(public options: TransportOptions) {
-    this.url = new API(this.options.dsn).getStoreEndpointWithUrlEncodedAuth();
+  /** Locks transport after receiving rate limits in a response, keyed by data category. */
+  protected readonly _rateLimits: { [category: string]: Date } = {};
+
+  /** Whether dropped events are counted, only transports sending client reports set it. */
+  protected _recordOutcomes: boolean = false;
+
+  /** Number of events dropped locally, keyed by `reason:category`. */
+  protected _outcomes: { [key: string]: number } = {};
+
+  /** Removes the platform listeners registered by the transport, see {@link BaseTransport.teardown}. */
+  protected readonly _teardowns: RestoreInstrumentation[] = [];
+
+  public constructor(public options: MiniappTransportOptions) {
+    this._api = new API(this.options.dsn, this.options._metadata);
+    this.url = this._api.getStoreEndpointWithUrlEncodedAuth();
   }
 
   /**
@@ -31,4 +60,86 @@ export abstract class BaseTransport implements Transport {
   public close(timeout?: number): PromiseLike<boolean> {
     return this._buffer.drain(timeout);
   }
+
+  /**
+   * Records an event which was dropped before being sent, if the transport reports them in client reports.
+   * 记录未发送即被丢弃的事件及其原因，仅在传输方式支持上报 client report 时记录。
+   *
+   * @param reason Why the event was dropped, e.g. `ratelimit_backoff`.
+   * @param category The data category of the event, e.g. `error`.
+   */
+  public recordLostEvent(reason: string, category: string): void {
+    if (!this._recordOutcomes) {
+      return;
+    }
+    const key = `${reason}:${category}`;
+    logger.log(`Adding outcome: ${key}`);
+    this._outcomes[key] = (this._outcomes[key] || 0) + 1;
+  }
+
+  /**
+   * Removes the platform listeners registered by the transport (e.g. `onAppHide`), invoked when the client is closed.
+   */
+  public teardown(): void {
+    restoreAll(this._teardowns);
+  }
+
+  /**
+   * Returns the URL envelopes are posted to, which is the tunnel if one is configured.
+   */
+  protected _getEnvelopeEndpoint(): string {
+    return this.options.tunnel || this._api.getEnvelopeEndpointWithUrlEncodedAuth();
+  }
+
+  /**
+   * Gets the time that given category is disabled until for rate limiting
+   */
+  protected _disabledUntil(category: string): Date {
+    return this._rateLimits[category] || this._rateLimits.all;
+  }
+
+  /**
+   * Checks if a category is rate limited
+   */
+  protected _isRateLimited(category: string): boolean {
+    return this._disabledUntil(category) > new Date(Date.now());
+  }
+
+  /**
+   * Sets internal _rateLimits from incoming headers. Returns true if headers contains a non-empty rate limiting header.
+   * 解析 `X-Sentry-Rate-Limits`、`Retry-After` 响应头，在限流时间窗口内丢弃对应类型的事件。
+   *
+   * @param headers Response headers with lower case keys.
+   */
+  protected _handleRateLimit(headers: { [key: string]: string | null | undefined }): boolean {
+    const now = Date.now();
+    const rlHeader = headers["x-sentry-rate-limits"];
+    const raHeader = headers["retry-after"];
+
+    if (rlHeader) {
+      // rate limit headers are of the form
+      //     <header>,<header>,..
+      // where each <header> is of the form
+      //     <retry_after>: <categories>: <scope>: <reason_code>
+      // where
+      //     <retry_after> is a delay in ms
+      //     <categories> is the event type(s) (error, transaction, etc) being rate limited and is of the form
+      //         <category>;<category>;...
+      //     <scope> is what's being limited (org, project, or key) - ignored by SDK
+      //     <reason_code> is an arbitrary string like "org_quota" - ignored by SDK
+      for (const limit of rlHeader.trim().split(",")) {
+        const parameters = limit.split(":", 2);
+        const headerDelay = parseInt(parameters[0], 10);
+        const delay = (!isNaN(headerDelay) ? headerDelay : 60) * 1000; // 60sec default
+        for (const category of (parameters[1] || "").split(";")) {
+          this._rateLimits[category || "all"] = new Date(now + delay);
+        }
+      }
+      return true;
+    } else if (raHeader) {
+      this._rateLimits.all = new Date(now + parseRetryAfterHeader(now, raHeader));
+      return true;
+    }
+    return false;
+  }
 }
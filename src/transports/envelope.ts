@@ -0,0 +1,262 @@
+import { API } from "@sentry/core";
+import { Event, Response, Session, SessionAggregates } from "@sentry/types";
+import { uuid4 } from "@sentry/utils";
+
+import { addListener, sdk } from "../crossPlatform";
+
+import { byteLength } from "./offline";
+import { MiniappTransportOptions } from "./base";
+import { XHRTransport } from "./xhr";
+
+/** Item types the SDK is able to put into an envelope. */
+export type EnvelopeItemType =
+  | "event"
+  | "transaction"
+  | "session"
+  | "sessions"
+  | "attachment"
+  | "user_report"
+  | "client_report";
+
+/** A single item of an envelope. */
+export interface EnvelopeItem {
+  headers: {
+    [key: string]: any;
+    type: EnvelopeItemType;
+  };
+  payload: string | object;
+}
+
+/**
+ * A Sentry envelope, see https://develop.sentry.dev/sdk/envelopes/
+ */
+export interface Envelope {
+  headers: {
+    [key: string]: any;
+    event_id?: string;
+    sent_at?: string;
+  };
+  items: EnvelopeItem[];
+}
+
+/** User feedback attached to an event. 用户反馈 */
+export interface UserFeedback {
+  event_id: string;
+  name: string;
+  email: string;
+  comments: string;
+}
+
+/** An attachment sent along with an event. 事件附件，仅支持文本内容 */
+export interface Attachment {
+  filename: string;
+  data: string;
+  contentType?: string;
+}
+
+/** A discarded event counted in a client report. */
+export interface DiscardedEvent {
+  reason: string;
+  category: string;
+  quantity: number;
+}
+
+/** Maps envelope item types to the data categories used for rate limiting. */
+const ITEM_TYPE_TO_CATEGORY: { [type: string]: string } = {
+  event: "error",
+  transaction: "transaction",
+  session: "session",
+  sessions: "session",
+  attachment: "attachment",
+  user_report: "default",
+  client_report: "internal",
+};
+
+/** Builds the envelope headers shared by all envelopes sent by the SDK. */
+function envelopeHeaders(api: API, eventId?: string): Envelope["headers"] {
+  const sdk = api.metadata && api.metadata.sdk;
+  return {
+    ...(eventId && { event_id: eventId }),
+    sent_at: new Date().toISOString(),
+    ...(sdk && { sdk: { name: sdk.name, version: sdk.version } }),
+  };
+}
+
+/** Creates an envelope from the given headers and items. */
+export function createEnvelope(headers: Envelope["headers"], items: EnvelopeItem[] = []): Envelope {
+  return { headers, items };
+}
+
+/**
+ * Serializes an envelope into the newline delimited format expected by the envelope endpoint.
+ */
+export function serializeEnvelope(envelope: Envelope): string {
+  const lines = [JSON.stringify(envelope.headers)];
+
+  envelope.items.forEach((item: EnvelopeItem) => {
+    const payload = typeof item.payload === "string" ? item.payload : JSON.stringify(item.payload);
+    lines.push(JSON.stringify({ ...item.headers, length: byteLength(payload) }));
+    lines.push(payload);
+  });
+
+  return lines.join("\n");
+}
+
+/** Creates an envelope holding an event or a transaction. */
+export function eventToEnvelope(event: Event, api: API): Envelope {
+  const { transactionSampling, ...metadata } = event.debug_meta || ({} as any);
+  const { method: samplingMethod, rate: sampleRate } = transactionSampling || ({} as any);
+
+  if (Object.keys(metadata).length === 0) {
+    delete event.debug_meta;
+  } else {
+    event.debug_meta = metadata;
+  }
+
+  const type = event.type === "transaction" ? "transaction" : "event";
+  return createEnvelope(envelopeHeaders(api, event.event_id), [
+    {
+      headers: {
+        type,
+        ...(type === "transaction" && { sample_rates: [{ id: samplingMethod, rate: sampleRate }] }),
+      },
+      payload: event,
+    },
+  ]);
+}
+
+/** Creates an envelope holding a session or session aggregates. */
+export function sessionToEnvelope(session: Session | SessionAggregates, api: API): Envelope {
+  return createEnvelope(envelopeHeaders(api), [
+    {
+      headers: { type: "aggregates" in session ? "sessions" : "session" },
+      payload: session,
+    },
+  ]);
+}
+
+/** Creates an envelope holding user feedback for an event. */
+export function userFeedbackToEnvelope(feedback: UserFeedback, api: API): Envelope {
+  return createEnvelope(envelopeHeaders(api, feedback.event_id), [
+    {
+      headers: { type: "user_report" },
+      payload: feedback,
+    },
+  ]);
+}
+
+/** Creates an envelope holding attachments of an event. */
+export function attachmentsToEnvelope(eventId: string, attachments: Attachment[], api: API): Envelope {
+  return createEnvelope(
+    envelopeHeaders(api, eventId),
+    attachments.map((attachment: Attachment) => ({
+      headers: {
+        type: "attachment" as EnvelopeItemType,
+        filename: attachment.filename,
+        content_type: attachment.contentType || "text/plain",
+      },
+      payload: attachment.data,
+    })),
+  );
+}
+
+/** Creates an envelope holding a client report of discarded events. */
+export function clientReportToEnvelope(discardedEvents: DiscardedEvent[], api: API): Envelope {
+  return createEnvelope(envelopeHeaders(api), [
+    {
+      headers: { type: "client_report" },
+      payload: {
+        timestamp: Date.now() / 1000,
+        discarded_events: discardedEvents,
+      },
+    },
+  ]);
+}
+
+/** `XHR` based transport posting envelopes to the envelope endpoint */
+export class EnvelopeTransport extends XHRTransport {
+  public constructor(options: MiniappTransportOptions) {
+    super(options);
+
+    this._recordOutcomes = true;
+    // 切到后台时上报被丢弃事件的统计
+    if (sdk.onAppHide) {
+      this._teardowns.push(addListener("AppHide", () => this._flushClientReport()));
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public sendEvent(event: Event): PromiseLike<Response> {
+    return this.sendEnvelope(eventToEnvelope(event, this._api), event.event_id);
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public sendSession(session: Session | SessionAggregates): PromiseLike<Response> {
+    return this.sendEnvelope(sessionToEnvelope(session, this._api));
+  }
+
+  /**
+   * Sends user feedback for a previously captured event.
+   */
+  public sendUserFeedback(feedback: UserFeedback): PromiseLike<Response> {
+    return this.sendEnvelope(userFeedbackToEnvelope(feedback, this._api));
+  }
+
+  /**
+   * Sends attachments for a previously captured event.
+   */
+  public sendAttachments(eventId: string, attachments: Attachment[]): PromiseLike<Response> {
+    return this.sendEnvelope(attachmentsToEnvelope(eventId, attachments, this._api));
+  }
+
+  /**
+   * Sends a client report of discarded events.
+   */
+  public sendClientReport(discardedEvents: DiscardedEvent[]): PromiseLike<Response> {
+    return this.sendEnvelope(clientReportToEnvelope(discardedEvents, this._api));
+  }
+
+  /**
+   * Serializes and sends an envelope.
+   *
+   * @param envelope The envelope to send.
+   * @param id Identifies the envelope in the offline queue, defaults to a random id.
+   */
+  public sendEnvelope(envelope: Envelope, id: string = uuid4()): PromiseLike<Response> {
+    if (this.options.tunnel) {
+      // the tunnel forwards the envelope to the DSN given in its headers
+      envelope.headers.dsn = this._api.getDsn().toString();
+    }
+
+    const type = envelope.items.length ? envelope.items[0].headers.type : "event";
+    return this._buffer.add(this._sendRecord({
+      body: serializeEnvelope(envelope),
+      category: ITEM_TYPE_TO_CATEGORY[type] || "default",
+      envelope: true,
+      id,
+      timestamp: Date.now(),
+    }));
+  }
+
+  /** Sends the recorded outcomes as a client report and resets them. */
+  private _flushClientReport(): void {
+    const keys = Object.keys(this._outcomes);
+    if (!keys.length) {
+      return;
+    }
+
+    const discardedEvents = keys.map((key: string) => {
+      const [reason, category] = key.split(":");
+      return { reason, category, quantity: this._outcomes[key] };
+    });
+    this._outcomes = {};
+
+    this.sendClientReport(discardedEvents).then(null, () => {
+      // the report is best effort, losing it is fine
+    });
+  }
+}
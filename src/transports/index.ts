@@ -1,2 +1,14 @@
-export { BaseTransport } from "./base";
+export { BaseTransport, MiniappTransportOptions } from "./base";
 export { XHRTransport } from "./xhr";
+export { OfflineQueue, OfflineQueueOptions } from "./offline";
+export {
+  Attachment,
+  DiscardedEvent,
+  Envelope,
+  EnvelopeItem,
+  EnvelopeItemType,
+  EnvelopeTransport,
+  UserFeedback,
+  createEnvelope,
+  serializeEnvelope,
+} from "./envelope";
@@ -0,0 +1,177 @@
+import { logger } from "@sentry/utils";
+
+import { getStorageSync, hasMinaApi, removeStorageSync, setStorageSync, supportStorage } from "../env";
+
+/**
+ * Configuration options for the offline queue.
+ * 离线队列的配置选项。
+ */
+export interface OfflineQueueOptions {
+  /** Storage key used to persist the queue. 持久化队列所使用的存储 key */
+  storageKey?: string;
+  /** Maximum number of queued events. 最多缓存的事件数量 */
+  maxEvents?: number;
+  /** Maximum total size of queued events in bytes. 缓存事件的最大总字节数 */
+  maxBytes?: number;
+  /** Maximum age of a queued event in ms, older events are dropped. 事件最长缓存时间（毫秒），超时的事件会被丢弃 */
+  maxAge?: number;
+}
+
+/** A single event waiting to be sent. */
+export interface OfflineRecord {
+  id: string;
+  body: string;
+  timestamp: number;
+  /** Whether `body` is a serialized envelope. */
+  envelope?: boolean;
+  /** Rate limit data category of the record, defaults to `error`. */
+  category?: string;
+}
+
+const DEFAULT_STORAGE_KEY = "__sentry_offline_queue__";
+const DEFAULT_MAX_EVENTS = 30;
+const DEFAULT_MAX_BYTES = 512 * 1024;
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the UTF-8 byte length of the given string.
+ * 小程序中没有 TextEncoder / Blob，这里手动计算。
+ */
+export function byteLength(str: string): number {
+  let length = 0;
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // surrogate pair, the next char code belongs to the same code point
+      length += 4;
+      i++;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+}
+
+/**
+ * A durable queue holding events which could not be sent, backed by the
+ * mini program storage. 基于小程序本地存储的离线事件队列。
+ */
+export class OfflineQueue {
+  /** Options after defaults have been applied. */
+  private readonly _options: Required<OfflineQueueOptions>;
+
+  /** In memory copy of the persisted records. */
+  private _records: OfflineRecord[] = [];
+
+  public constructor(options: OfflineQueueOptions = {}) {
+    this._options = {
+      storageKey: DEFAULT_STORAGE_KEY,
+      maxEvents: DEFAULT_MAX_EVENTS,
+      maxBytes: DEFAULT_MAX_BYTES,
+      maxAge: DEFAULT_MAX_AGE,
+      ...options,
+    };
+    this._records = this._load();
+  }
+
+  /**
+   * Returns whether the current platform is able to persist the queue.
+   */
+  public static isSupported(): boolean {
+    return supportStorage();
+  }
+
+  /**
+   * Adds a record to the queue, replacing a record with the same id.
+   */
+  public add(record: OfflineRecord): void {
+    const index = this._records.map(item => item.id).indexOf(record.id);
+    if (index > -1) {
+      this._records[index] = record;
+    } else {
+      this._records.push(record);
+    }
+    this._save();
+  }
+
+  /**
+   * Removes the record with the given id from the queue.
+   */
+  public remove(id: string): void {
+    const length = this._records.length;
+    this._records = this._records.filter(item => item.id !== id);
+    if (this._records.length !== length) {
+      this._save();
+    }
+  }
+
+  /**
+   * Returns all records which have not expired yet, oldest first.
+   */
+  public records(): OfflineRecord[] {
+    const length = this._records.length;
+    this._records = this._trim(this._records);
+    if (this._records.length !== length) {
+      this._save();
+    }
+    return this._records.slice();
+  }
+
+  /** Drops expired records and enforces the count / size caps, keeping the newest records. */
+  private _trim(records: OfflineRecord[]): OfflineRecord[] {
+    const now = Date.now();
+    const fresh = records.filter(record => now - record.timestamp <= this._options.maxAge);
+    const kept: OfflineRecord[] = [];
+    let bytes = 0;
+
+    for (let i = fresh.length - 1; i >= 0; i--) {
+      const size = byteLength(fresh[i].body);
+      if (kept.length >= this._options.maxEvents || bytes + size > this._options.maxBytes) {
+        break;
+      }
+      bytes += size;
+      kept.unshift(fresh[i]);
+    }
+
+    if (kept.length !== records.length) {
+      logger.warn(`Dropped ${records.length - kept.length} offline event(s) exceeding queue limits`);
+    }
+    return kept;
+  }
+
+  /** Reads the persisted records from storage. */
+  private _load(): OfflineRecord[] {
+    if (!OfflineQueue.isSupported()) {
+      return [];
+    }
+    try {
+      // tslint:disable-next-line: no-unsafe-any
+      const stored = getStorageSync(this._options.storageKey);
+      return Array.isArray(stored) ? this._trim(stored as OfflineRecord[]) : [];
+    } catch (e) {
+      logger.warn("Unable to read offline events from storage");
+      return [];
+    }
+  }
+
+  /** Writes the records to storage. */
+  private _save(): void {
+    this._records = this._trim(this._records);
+    if (!OfflineQueue.isSupported()) {
+      return;
+    }
+    try {
+      if (!this._records.length && hasMinaApi("removeStorageSync")) {
+        removeStorageSync(this._options.storageKey);
+      } else {
+        setStorageSync(this._options.storageKey, this._records);
+      }
+    } catch (e) {
+      logger.warn("Unable to write offline events to storage");
+    }
+  }
+}
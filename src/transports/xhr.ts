@@ -1,36 +1,180 @@
-import { Event, Response, Status } from "@sentry/types";
+import { eventToSentryRequest, sessionToSentryRequest } from "@sentry/core";
+import { Event, Response, Session, SessionAggregates, Status } from "@sentry/types";
+import { logger, SyncPromise, uuid4 } from "@sentry/utils";
 
-import { sdk } from "../crossPlatform";
+import { addListener, request, RequestError, RequestResponse, sdk } from "../crossPlatform";
 
-import { BaseTransport } from "./base";
+import { BaseTransport, MiniappTransportOptions } from "./base";
+import { OfflineQueue, OfflineRecord } from "./offline";
+
+/**
+ * Sets `sent_at` in the headers of a serialized envelope to the current time,
+ * envelopes replayed from the offline queue were serialized when they were first sent.
+ */
+function refreshSentAt(body: string): string {
+  const newline = body.indexOf("\n");
+  const headerLine = newline === -1 ? body : body.slice(0, newline);
+  try {
+    const headers = JSON.parse(headerLine);
+    if (!headers || !headers.sent_at) {
+      return body;
+    }
+    headers.sent_at = new Date().toISOString();
+    return JSON.stringify(headers) + body.slice(headerLine.length);
+  } catch (e) {
+    return body;
+  }
+}
 
 /** `XHR` based transport */
 export class XHRTransport extends BaseTransport {
+  /** Durable queue for events which failed to send, only set when the `offline` option is enabled. */
+  private readonly _offlineQueue?: OfflineQueue;
+
+  /** Serialized events which are currently being sent. */
+  private readonly _inflight: { [id: string]: OfflineRecord } = {};
+
+  /** Whether the offline queue is currently being replayed. */
+  private _replaying: boolean = false;
+
+  public constructor(options: MiniappTransportOptions) {
+    super(options);
+
+    if (this.options.offline && OfflineQueue.isSupported()) {
+      this._offlineQueue = new OfflineQueue(typeof this.options.offline === "object" ? this.options.offline : {});
+      this._setupOfflineQueue();
+    }
+  }
+
   /**
    * @inheritDoc
    */
   public sendEvent(event: Event): PromiseLike<Response> {
-    const request = sdk.request || sdk.httpRequest;
+    // transactions are only accepted by the envelope endpoint
+    const sentryRequest = eventToSentryRequest(event, this._api);
+    return this._buffer.add(this._sendRecord({
+      body: sentryRequest.body,
+      category: sentryRequest.type === "transaction" ? "transaction" : "error",
+      envelope: sentryRequest.type === "transaction",
+      id: event.event_id || uuid4(),
+      timestamp: Date.now(),
+    }));
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public sendSession(session: Session | SessionAggregates): PromiseLike<Response> {
+    return this._buffer.add(this._sendRecord({
+      body: sessionToSentryRequest(session, this._api).body,
+      category: "session",
+      envelope: true,
+      id: uuid4(),
+      timestamp: Date.now(),
+    }));
+  }
+
+  /** Posts a serialized event or envelope, persisting it to the offline queue if the request fails. */
+  protected _sendRecord(record: OfflineRecord): PromiseLike<Response> {
+    const category = record.category || "error";
+
+    if (this._isRateLimited(category)) {
+      this.recordLostEvent("ratelimit_backoff", category);
+      return SyncPromise.reject<Response>({
+        reason: `Transport locked till ${this._disabledUntil(category)} due to too many requests.`,
+        status: Status.RateLimit,
+      });
+    }
+
+    this._inflight[record.id] = record;
 
     // @ts-ignore
-    return this._buffer.add(new Promise<Response>((resolve, reject) => {
-      // tslint:disable-next-line: no-unsafe-any
+    return new Promise<Response>((resolve, reject) => {
       request({
-        url: this.url,
+        url: record.envelope ? this._getEnvelopeEndpoint() : this.url,
         method: "POST",
-        data: JSON.stringify(event),
-        header: {
-          "content-type": "application/json"
+        data: record.body,
+        headers: {
+          "content-type": record.envelope ? "text/plain;charset=UTF-8" : "application/json"
         },
-        success(res: { statusCode: number }): void {
+        success: (res: RequestResponse): void => {
+          delete this._inflight[record.id];
+          if (this._offlineQueue) {
+            this._offlineQueue.remove(record.id);
+          }
+          const headers: { [key: string]: string } = {};
+          Object.keys(res.headers).forEach((key: string) => {
+            headers[key.toLowerCase()] = res.headers[key];
+          });
+          if (this._handleRateLimit(headers)) {
+            logger.warn(`Too many ${category} requests, backing off until: ${this._disabledUntil(category)}`);
+          }
           resolve({
             status: Status.fromHttpCode(res.statusCode)
           });
         },
-        fail(error: object): void {
+        fail: (error: RequestError): void => {
+          delete this._inflight[record.id];
+          if (this._offlineQueue) {
+            this._offlineQueue.add(record);
+          }
           reject(error);
         }
       });
-    }));
+    });
+  }
+
+  /**
+   * Replays events persisted by a previous launch and hooks the app lifecycle:
+   * 网络恢复时重新发送离线事件；切到后台时将发送中的事件写入本地存储，并尝试发送。
+   */
+  private _setupOfflineQueue(): void {
+    setTimeout(() => this._replayOfflineQueue());
+
+    if (sdk.onNetworkStatusChange) {
+      this._teardowns.push(addListener("NetworkStatusChange", (res: { isConnected: boolean }) => {
+        if (res.isConnected) {
+          this._replayOfflineQueue();
+        }
+      }));
+    }
+
+    if (sdk.onAppHide) {
+      this._teardowns.push(addListener("AppHide", () => {
+        const offlineQueue = this._offlineQueue as OfflineQueue;
+        Object.keys(this._inflight).forEach((id: string) => {
+          offlineQueue.add(this._inflight[id]);
+        });
+        this._replayOfflineQueue();
+      }));
+    }
+  }
+
+  /** Sends the persisted events one after another, stopping at the first failure. */
+  private _replayOfflineQueue(): void {
+    if (!this._offlineQueue || this._replaying) {
+      return;
+    }
+
+    const records = this._offlineQueue.records().filter((record: OfflineRecord) => !this._inflight[record.id]);
+    if (!records.length) {
+      return;
+    }
+
+    this._replaying = true;
+    const next = (index: number): void => {
+      if (index >= records.length) {
+        this._replaying = false;
+        return;
+      }
+      const record = records[index];
+      this._sendRecord(record.envelope ? { ...record, body: refreshSentAt(record.body) } : record).then(
+        () => next(index + 1),
+        () => {
+          this._replaying = false;
+        },
+      );
+    };
+    next(0);
   }
 }
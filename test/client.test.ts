@@ -0,0 +1,98 @@
+import { getCurrentHub } from '@sentry/core';
+
+import { GlobalHandlers } from '../src/integrations/globalhandlers';
+import { captureAttachments, captureUserFeedback, close, init } from '../src/sdk';
+
+const platform = (global as any).wx;
+const listeners: { [name: string]: Function[] } = {};
+
+function listenerCounts(): { [name: string]: number } {
+  const counts: { [name: string]: number } = {};
+  Object.keys(listeners).forEach((name: string) => {
+    counts[name] = listeners[name].length;
+  });
+  return counts;
+}
+
+function initClient(): void {
+  init({
+    defaultIntegrations: false,
+    dsn: 'https://public@o1.ingest.sentry.io/1',
+    envelope: true,
+    integrations: [
+      new GlobalHandlers({
+        onerror: true,
+        onmemorywarning: false,
+        onpagenotfound: false,
+        onunhandledrejection: false,
+      }),
+    ],
+  });
+}
+
+beforeAll(() => {
+  ['Error', 'AppHide'].forEach((name: string) => {
+    listeners[name] = [];
+    platform[`on${name}`] = (callback: Function) => listeners[name].push(callback);
+    platform[`off${name}`] = (callback: Function) => {
+      listeners[name] = listeners[name].filter((listener: Function) => listener !== callback);
+    };
+  });
+});
+
+afterAll(() => {
+  ['Error', 'AppHide'].forEach((name: string) => {
+    delete platform[`on${name}`];
+    delete platform[`off${name}`];
+  });
+});
+
+describe('MiniappClient', () => {
+  test('close() removes the listeners of the integrations and the transport', async () => {
+    initClient();
+    expect(listenerCounts()).toEqual({ Error: 1, AppHide: 1 });
+
+    await close(0);
+    expect(listenerCounts()).toEqual({ Error: 0, AppHide: 0 });
+  });
+
+  test('init() after close() installs the integrations again', async () => {
+    initClient();
+    expect(listenerCounts()).toEqual({ Error: 1, AppHide: 1 });
+    expect(getCurrentHub().getIntegration(GlobalHandlers)).toBeTruthy();
+
+    await close(0);
+    expect(listenerCounts()).toEqual({ Error: 0, AppHide: 0 });
+  });
+
+  test('captureUserFeedback() and captureAttachments() post envelopes', async () => {
+    const requests: any[] = [];
+    const request = platform.request;
+    platform.request = (options: any) => {
+      requests.push(options);
+      options.success({ statusCode: 200, data: '', header: {} });
+    };
+
+    initClient();
+    captureUserFeedback({ event_id: 'abc', name: 'n', email: 'e@example.com', comments: 'broken' });
+    captureAttachments([{ filename: 'log.txt', data: 'line' }], 'abc');
+    await close(0);
+    platform.request = request;
+
+    expect(requests.map((options: any) => options.url.split('?')[0])).toEqual([
+      'https://o1.ingest.sentry.io/api/1/envelope/',
+      'https://o1.ingest.sentry.io/api/1/envelope/',
+    ]);
+    const [feedback, attachments] = requests.map((options: any) => (options.data as string).split('\n'));
+    expect(JSON.parse(feedback[0]).event_id).toBe('abc');
+    expect(JSON.parse(feedback[1]).type).toBe('user_report');
+    expect(JSON.parse(feedback[2]).comments).toBe('broken');
+    expect(JSON.parse(attachments[1])).toEqual({
+      content_type: 'text/plain',
+      filename: 'log.txt',
+      length: 4,
+      type: 'attachment',
+    });
+    expect(attachments[2]).toBe('line');
+  });
+});
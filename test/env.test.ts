@@ -0,0 +1,35 @@
+import { getComponentPage } from '../src/env';
+
+const pages = [
+  { route: 'pages/index/index', getPageId: () => 'pageId:1' },
+  { route: 'pages/detail/detail', getPageId: () => 'pageId:2' },
+];
+
+beforeAll(() => {
+  (global as any).getCurrentPages = () => pages;
+});
+
+afterAll(() => {
+  delete (global as any).getCurrentPages;
+});
+
+describe('getComponentPage', () => {
+  test('uses the $page of Alipay and DingTalk components', () => {
+    expect(getComponentPage({ is: 'components/a/a', $page: { route: 'pages/index/index' } })).toBe('pages/index/index');
+  });
+
+  test('matches the page id of WeChat components against the page stack', () => {
+    expect(getComponentPage({ is: 'components/a/a', getPageId: () => 'pageId:1' })).toBe('pages/index/index');
+  });
+
+  test('walks the owners up to the page', () => {
+    const page = { route: 'pages/index/index' };
+    const parent = { is: 'components/parent/parent', selectOwnerComponent: () => page };
+    expect(getComponentPage({ is: 'components/a/a', selectOwnerComponent: () => parent })).toBe('pages/index/index');
+  });
+
+  test('falls back to the current page', () => {
+    expect(getComponentPage({ is: 'components/a/a' })).toBe('pages/detail/detail');
+    expect(getComponentPage(undefined)).toBe('pages/detail/detail');
+  });
+});
@@ -0,0 +1,40 @@
+import { eventFromUnknownInput } from '../src/eventbuilder';
+
+describe('eventFromUnknownInput', () => {
+  test('types failed platform API results by the API', () => {
+    const event = eventFromUnknownInput({ errMsg: 'getLocation:fail auth deny', errCode: 0 });
+
+    expect(event.exception!.values![0]).toMatchObject({ type: 'getLocation:fail', value: 'auth deny' });
+    expect(event.tags).toEqual({ 'mina.api': 'getLocation', 'mina.errCode': '0' });
+    expect(event.fingerprint).toEqual(['mina-api', 'getLocation', '0']);
+  });
+
+  test('groups failed platform API results without errCode by reason', () => {
+    const event = eventFromUnknownInput({ errMsg: 'login:fail timeout' });
+
+    expect(event.exception!.values![0]).toMatchObject({ type: 'login:fail', value: 'timeout' });
+    expect(event.tags).toEqual({ 'mina.api': 'login' });
+    expect(event.fingerprint).toEqual(['mina-api', 'login', 'timeout']);
+  });
+
+  test('parses WeChat onError strings', () => {
+    const event = eventFromUnknownInput(
+      [
+        'MiniProgramError',
+        "Cannot read property 'x' of undefined",
+        "TypeError: Cannot read property 'x' of undefined",
+        '    at Page.onLoad (pages/index/index.js:10:5)',
+      ].join('\n'),
+    );
+
+    const exception = event.exception!.values![0];
+    expect(exception).toMatchObject({ type: 'TypeError', value: "Cannot read property 'x' of undefined" });
+    expect(exception.stacktrace!.frames!.map(frame => frame.filename)).toEqual(['/pages/index/index.js']);
+  });
+
+  test('parses mini game { message, stack } errors', () => {
+    const event = eventFromUnknownInput({ message: 'bad thing', stack: 'RangeError: bad thing\n    at a (game.js:1:2)' });
+
+    expect(event.exception!.values![0]).toMatchObject({ type: 'RangeError', value: 'bad thing' });
+  });
+});
@@ -0,0 +1,179 @@
+import { StackFrame } from '../../src/tracekit';
+
+/** A stack reported by a platform and the frames expected from it */
+export interface StackFixture {
+  platform: string;
+  os: 'Android' | 'iOS' | 'devtools';
+  error: { name: string; message: string; stack: string };
+  frames: Array<Pick<StackFrame, 'url' | 'func' | 'line' | 'column'>>;
+}
+
+export const STACK_FIXTURES: StackFixture[] = [
+  {
+    error: {
+      message: "Cannot read property 'name' of undefined",
+      name: 'TypeError',
+      stack: [
+        "TypeError: Cannot read property 'name' of undefined",
+        '    at Page.onLoad (pages/index/index.js:12:24)',
+        '    at Page.<anonymous> (WASubContext.js?t=wechat&s=1619000000&v=2.16.1:2:27063)',
+        '    at WASubContext.js?t=wechat&s=1619000000&v=2.16.1:2:26900',
+      ].join('\n'),
+    },
+    frames: [
+      { url: '/pages/index/index.js', func: 'Page.onLoad', line: 12, column: 24 },
+      { url: '/WASubContext.js', func: 'Page.<anonymous>', line: 2, column: 27063 },
+      { url: '/WASubContext.js', func: '?', line: 2, column: 26900 },
+    ],
+    os: 'Android',
+    platform: 'wechat',
+  },
+  {
+    error: {
+      message: "undefined is not an object (evaluating 'e.name')",
+      name: 'TypeError',
+      stack: [
+        'onLoad@https://usr/app-service.js:1234:24',
+        '@https://lib/WASubContext.js?t=wechat&s=1619000000&v=2.16.1:2:27063',
+        'forEach@[native code]',
+        'global code@https://usr/app-service.js:1:1',
+      ].join('\n'),
+    },
+    frames: [
+      { url: 'https://usr/app-service.js', func: 'onLoad', line: 1234, column: 24 },
+      { url: 'https://lib/WASubContext.js', func: '?', line: 2, column: 27063 },
+      { url: '[native code]', func: 'forEach', line: null, column: null },
+      { url: 'https://usr/app-service.js', func: 'global code', line: 1, column: 1 },
+    ],
+    os: 'iOS',
+    platform: 'wechat',
+  },
+  {
+    error: {
+      message: 'foo is not defined',
+      name: 'ReferenceError',
+      stack: [
+        'ReferenceError: foo is not defined',
+        '    at Object.onShow (https://servicewechat.com/wx0123456789abcdef/0/appservice/app-service.js:20:3)',
+        '    at https://servicewechat.com/wx0123456789abcdef/0/appservice/app-service.js:1:200',
+      ].join('\n'),
+    },
+    frames: [
+      {
+        url: 'https://servicewechat.com/wx0123456789abcdef/0/appservice/app-service.js',
+        func: 'Object.onShow',
+        line: 20,
+        column: 3,
+      },
+      { url: 'https://servicewechat.com/wx0123456789abcdef/0/appservice/app-service.js', func: '?', line: 1, column: 200 },
+    ],
+    os: 'devtools',
+    platform: 'wechat',
+  },
+  {
+    error: {
+      message: 'qq is broken',
+      name: 'Error',
+      stack: [
+        'Error: qq is broken',
+        '    at t.onTap (pages/detail/detail.js:33:15)',
+        '    at Object.i (WAService.js?t=qq&v=1.20.0:1:4587)',
+      ].join('\n'),
+    },
+    frames: [
+      { url: '/pages/detail/detail.js', func: 't.onTap', line: 33, column: 15 },
+      { url: '/WAService.js', func: 'Object.i', line: 1, column: 4587 },
+    ],
+    os: 'Android',
+    platform: 'qq',
+  },
+  {
+    error: {
+      message: 'Cannot read property "list" of null',
+      name: 'TypeError',
+      stack: [
+        'TypeError: Cannot read property "list" of null',
+        '    at Object.onLoad (https://appx/af-appx.worker.min.js:1:2000)',
+        '    at appx/af-appx.worker.min.js:1:2001',
+        '    at t.onShow (pages/index/index.js:12:7)',
+      ].join('\n'),
+    },
+    frames: [
+      { url: 'https://appx/af-appx.worker.min.js', func: 'Object.onLoad', line: 1, column: 2000 },
+      { url: 'https://appx/af-appx.worker.min.js', func: '?', line: 1, column: 2001 },
+      { url: '/pages/index/index.js', func: 't.onShow', line: 12, column: 7 },
+    ],
+    os: 'Android',
+    platform: 'alipay',
+  },
+  {
+    error: {
+      message: "null is not an object (evaluating 'n.list')",
+      name: 'TypeError',
+      stack: ['onLoad@https://appx/af-appx.worker.min.js:1:2000', 'onShow@pages/index/index.js:12:7'].join('\n'),
+    },
+    frames: [
+      { url: 'https://appx/af-appx.worker.min.js', func: 'onLoad', line: 1, column: 2000 },
+      { url: '/pages/index/index.js', func: 'onShow', line: 12, column: 7 },
+    ],
+    os: 'iOS',
+    platform: 'alipay',
+  },
+  {
+    error: {
+      message: 'dingtalk failure',
+      name: 'Error',
+      stack: ['Error: dingtalk failure', '    at e.onReady (appx/af-appx.worker.min.js:3:17)'].join('\n'),
+    },
+    frames: [{ url: 'https://appx/af-appx.worker.min.js', func: 'e.onReady', line: 3, column: 17 }],
+    os: 'Android',
+    platform: 'dingtalk',
+  },
+  {
+    error: {
+      message: 'a is not a function',
+      name: 'TypeError',
+      stack: [
+        'TypeError: a is not a function',
+        '    at n.onLoad (tt://app-service.js:1:2048)',
+        '    at https://tmaservice.developer.toutiao.com/app-service.js:1:2049',
+      ].join('\n'),
+    },
+    frames: [
+      { url: 'tt://app-service.js', func: 'n.onLoad', line: 1, column: 2048 },
+      { url: 'https://tmaservice.developer.toutiao.com/app-service.js', func: '?', line: 1, column: 2049 },
+    ],
+    os: 'Android',
+    platform: 'bytedance',
+  },
+  {
+    error: {
+      message: 'a is not a function',
+      name: 'TypeError',
+      stack: ['onLoad@tt://app-service.js:1:2048', 'forEach@[native code]'].join('\n'),
+    },
+    frames: [
+      { url: 'tt://app-service.js', func: 'onLoad', line: 1, column: 2048 },
+      { url: '[native code]', func: 'forEach', line: null, column: null },
+    ],
+    os: 'iOS',
+    platform: 'bytedance',
+  },
+  {
+    error: {
+      message: 'swan failure',
+      name: 'Error',
+      stack: [
+        'Error: swan failure',
+        '    at Page.onLoad (swan-core/master/master.js:1:2048)',
+        '    at https://smartapps.cn/abc/1.0.0/page-frame.js:1:2048',
+      ].join('\n'),
+    },
+    frames: [
+      { url: '/swan-core/master/master.js', func: 'Page.onLoad', line: 1, column: 2048 },
+      { url: 'https://smartapps.cn/abc/1.0.0/page-frame.js', func: '?', line: 1, column: 2048 },
+    ],
+    os: 'Android',
+    platform: 'swan',
+  },
+];
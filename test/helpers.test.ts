@@ -0,0 +1,50 @@
+import { Event } from '@sentry/types';
+
+import { wrap } from '../src/helpers';
+import { close, init } from '../src/sdk';
+
+const events: Event[] = [];
+
+beforeAll(() => {
+  init({
+    beforeSend: (event: Event) => {
+      events.push(event);
+      return null;
+    },
+    defaultIntegrations: false,
+    dsn: 'https://public@o1.ingest.sentry.io/1',
+  });
+});
+
+afterAll(() => close(0));
+
+beforeEach(() => {
+  events.length = 0;
+});
+
+describe('wrap', () => {
+  test('captures an exception thrown through nested wrapped functions once', () => {
+    const page = {
+      helper: wrap(() => {
+        throw new Error('helper');
+      }),
+      onTap: wrap(function(this: any): void {
+        this.helper();
+      }),
+    };
+
+    expect(() => page.onTap()).toThrow('helper');
+    expect(events).toHaveLength(1);
+    expect(events[0].exception!.values![0].value).toBe('helper');
+  });
+
+  test('captures each exception thrown by wrapped functions', () => {
+    const fn = wrap(() => {
+      throw new Error('again');
+    });
+
+    expect(() => fn()).toThrow('again');
+    expect(() => fn()).toThrow('again');
+    expect(events).toHaveLength(2);
+  });
+});
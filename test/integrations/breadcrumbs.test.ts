@@ -0,0 +1,135 @@
+import { getCapabilities, setMinaContext, supportStorage } from '../../src/env';
+import { isCaptured } from '../../src/helpers';
+import { fill, RestoreInstrumentation } from '../../src/instrument';
+import { Breadcrumbs } from '../../src/integrations/breadcrumbs';
+import { OfflineQueue } from '../../src/transports/offline';
+
+/** Roughly the number of functions `wx` exposes. */
+const PLATFORM_API_COUNT = 600;
+const ROUNDS = 20;
+
+/** A platform object with many APIs, including the default allowlist of the Breadcrumbs integration */
+function createPlatform(): { [key: string]: any } {
+  const platform: { [key: string]: any } = {};
+  for (let i = 0; i < PLATFORM_API_COUNT; i++) {
+    platform[`api${i}`] = () => i;
+  }
+  ['login', 'getLocation', 'setStorage', 'getStorage', 'getStorageSync', 'setStorageSync', 'getNetworkType'].forEach(
+    (api: string) => {
+      platform[api] = () => api;
+    },
+  );
+  return platform;
+}
+
+function createBreadcrumbs(): Breadcrumbs {
+  return new Breadcrumbs({
+    api: true,
+    console: false,
+    filterApis: undefined,
+    lifecycle: false,
+    navigation: false,
+    realtimeLog: false,
+    request: false,
+    unhandleError: false,
+  });
+}
+
+/** Returns the names of the APIs replaced by a lazy getter. */
+function lazyApis(platform: { [key: string]: any }): string[] {
+  return Object.keys(platform).filter((api: string) => {
+    const descriptor = Object.getOwnPropertyDescriptor(platform, api);
+    return !!descriptor && !!descriptor.get;
+  });
+}
+
+function measure(setup: (platform: { [key: string]: any }) => void): number {
+  let total = 0;
+  for (let i = 0; i < ROUNDS; i++) {
+    const platform = createPlatform();
+    const start = process.hrtime();
+    setup(platform);
+    const [seconds, nanoseconds] = process.hrtime(start);
+    total += seconds * 1e3 + nanoseconds / 1e6;
+  }
+  return total / ROUNDS;
+}
+
+describe('Breadcrumbs API instrumentation', () => {
+  let breadcrumbs: Breadcrumbs;
+
+  afterEach(() => {
+    breadcrumbs.teardown();
+  });
+
+  test('startup overhead of the lazy allowlist compared to wrapping every API', () => {
+    const restores: Array<RestoreInstrumentation | undefined> = [];
+    const eager = measure(platform => {
+      Object.keys(platform).forEach((api: string) => {
+        restores.push(fill(platform, api, (original: Function) => (...args: any[]) => original(...args)));
+      });
+    });
+    const lazy = measure(platform => {
+      setMinaContext(platform);
+      breadcrumbs = createBreadcrumbs();
+      breadcrumbs.instrumentMinaApi();
+      breadcrumbs.teardown();
+    });
+    breadcrumbs = createBreadcrumbs();
+
+    // tslint:disable-next-line: no-console
+    console.log(
+      `Instrumenting ${PLATFORM_API_COUNT} platform APIs: eager fill ${eager.toFixed(3)}ms, ` +
+        `lazy allowlist ${lazy.toFixed(3)}ms (mean of ${ROUNDS} rounds)`,
+    );
+    expect(restores.filter(Boolean).length).toBeGreaterThan(PLATFORM_API_COUNT);
+    expect(lazy).toBeLessThan(eager);
+  });
+
+  test('wraps allowlisted APIs on first access only', () => {
+    const platform = createPlatform();
+    const originalLogin = platform.login;
+    setMinaContext(platform);
+    breadcrumbs = createBreadcrumbs();
+    breadcrumbs.instrumentMinaApi();
+
+    expect(lazyApis(platform).sort()).toEqual(['getLocation', 'getNetworkType', 'getStorage', 'login', 'setStorage']);
+    expect(platform.login).not.toBe(originalLogin);
+    expect(platform.login.__sentry_original__).toBe(originalLogin);
+    expect(lazyApis(platform)).not.toContain('login');
+  });
+
+  test('capability probes of the SDK do not wrap lazily instrumented APIs', () => {
+    const platform = createPlatform();
+    setMinaContext(platform);
+    breadcrumbs = createBreadcrumbs();
+    breadcrumbs.instrumentMinaApi();
+
+    expect(supportStorage()).toBe(true);
+    expect(OfflineQueue.isSupported()).toBe(true);
+    getCapabilities();
+
+    expect(lazyApis(platform)).toContain('setStorage');
+    expect(lazyApis(platform)).toContain('getStorage');
+  });
+
+  test('keeps the rejection of promise-returning APIs called without callbacks', async () => {
+    const platform = createPlatform();
+    const failure = { errMsg: 'login:fail auth deny' };
+    const rejected = Promise.reject(failure);
+    rejected.catch(() => undefined);
+    platform.login = () => rejected;
+    platform.getLocation = () => Promise.resolve({ latitude: 1 });
+    setMinaContext(platform);
+    breadcrumbs = createBreadcrumbs();
+    breadcrumbs.instrumentMinaApi();
+
+    await expect(platform.getLocation()).resolves.toEqual({ latitude: 1 });
+    // the handlers recording the outcome are attached to the platform promise, not to the one returned,
+    // so a fire-and-forget call still reaches onUnhandledRejection
+    const result = platform.login();
+    expect(result).not.toBe(rejected);
+    await expect(result).rejects.toBe(failure);
+    expect(isCaptured(failure)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { Event } from '@sentry/types';
+
+import { Component } from '../../src/integrations/component';
+import { close, init } from '../../src/sdk';
+
+const events: Event[] = [];
+const registered: any[] = [];
+
+beforeAll(() => {
+  (global as any).Component = (options: any) => registered.push(options);
+  init({
+    beforeSend: (event: Event) => {
+      events.push(event);
+      return null;
+    },
+    defaultIntegrations: false,
+    dsn: 'https://public@o1.ingest.sentry.io/1',
+    integrations: [new Component({ errorLifetime: false })],
+  });
+});
+
+afterAll(async () => {
+  await close(0);
+  delete (global as any).Component;
+});
+
+describe('Component', () => {
+  test('captures an exception thrown through methods calling each other once', () => {
+    (global as any).Component({
+      lifetimes: {
+        attached(this: any): void {
+          this.load();
+        },
+      },
+      methods: {
+        load(this: any): void {
+          this.parse();
+        },
+        parse(): void {
+          throw new Error('parse');
+        },
+      },
+    });
+    const options = registered[0];
+    const instance = { is: 'components/list/list', ...options.methods };
+
+    expect(() => options.lifetimes.attached.call(instance)).toThrow('parse');
+    expect(events).toHaveLength(1);
+    expect(events[0].exception!.values![0].mechanism!.data).toMatchObject({
+      component: 'components/list/list',
+      function: 'methods.parse',
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { Tracing } from '../../src/integrations/tracing';
+import { close, init } from '../../src/sdk';
+
+const platform = (global as any).wx;
+const registered: any[] = [];
+const sent: any[] = [];
+let request: Function;
+
+beforeAll(() => {
+  request = platform.request;
+  platform.request = (options: any) => {
+    sent.push(options);
+    if (options.success) {
+      options.success({ statusCode: 200, data: '', header: {} });
+    }
+  };
+  (global as any).Page = (options: any) => registered.push(options);
+  init({
+    defaultIntegrations: false,
+    dsn: 'https://public@o1.ingest.sentry.io/1',
+    integrations: [new Tracing({ tracingOrigins: ['api.example.com'] })],
+    tracesSampleRate: 1,
+  });
+});
+
+afterAll(async () => {
+  await close(0);
+  platform.request = request;
+  delete (global as any).Page;
+});
+
+describe('Tracing', () => {
+  test('continues the trace of the page in requests sent after it has loaded', () => {
+    (global as any).Page({
+      onLoad(): void {
+        platform.request({ url: 'https://api.example.com/load' });
+      },
+      onTap(): void {
+        platform.request({ url: 'https://api.example.com/tap' });
+        platform.request({ url: 'https://cdn.example.com/tap' });
+      },
+    });
+    const options = registered[0];
+    const page = { route: 'pages/index/index', ...options };
+
+    options.onLoad.call(page, {});
+    options.onReady.call(page);
+    options.onTap.call(page);
+
+    const [load, tap, other] = sent
+      .filter((item: any) => item.url.indexOf('example.com') > -1)
+      .map((item: any) => item.header || {});
+    const traceId = load['sentry-trace'].split('-')[0];
+    expect(load['sentry-trace']).toMatch(/^\w{32}-\w{16}-1$/);
+    expect(tap['sentry-trace']).toMatch(new RegExp(`^${traceId}-\\w{16}-1$`));
+    expect(tap.baggage).toContain(`sentry-trace_id=${traceId}`);
+    expect(other['sentry-trace']).toBeUndefined();
+  });
+});
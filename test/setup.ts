@@ -0,0 +1,6 @@
+// The SDK detects the platform from its global object when it is loaded, tests run as a WeChat mini program.
+// tslint:disable: no-empty
+(global as any).wx = {
+  getSystemInfoSync: () => ({}),
+  request: () => {},
+};
@@ -0,0 +1,44 @@
+import { computeStackTrace } from '../src/tracekit';
+
+import { STACK_FIXTURES } from './fixtures/stacks';
+
+describe('computeStackTrace', () => {
+  STACK_FIXTURES.forEach(fixture => {
+    test(`parses ${fixture.platform} stacks on ${fixture.os}`, () => {
+      const stacktrace = computeStackTrace(fixture.error);
+
+      expect(stacktrace.name).toBe(fixture.error.name);
+      expect(stacktrace.message).toBe(fixture.error.message);
+      expect(
+        stacktrace.stack.map(frame => ({ url: frame.url, func: frame.func, line: frame.line, column: frame.column })),
+      ).toEqual(fixture.frames);
+    });
+  });
+
+  test('parses the stack contained in the message of WeChat onError errors', () => {
+    const stacktrace = computeStackTrace({
+      message: [
+        'MiniProgramError',
+        'x is not defined',
+        'ReferenceError: x is not defined',
+        '    at Page.onLoad (pages/index/index.js:10:5)',
+      ].join('\n'),
+      name: 'Error',
+      stack: 'Error: MiniProgramError\n    at sdk (sentry-miniapp.wx.min.js:1:1)',
+    });
+
+    expect(stacktrace.stack).toEqual([
+      { url: '/pages/index/index.js', func: 'Page.onLoad', args: [], line: 10, column: 5 },
+    ]);
+  });
+
+  test('skips lines which are no frames', () => {
+    const stacktrace = computeStackTrace({
+      message: 'boom',
+      name: 'Error',
+      stack: 'Error: boom\nthirdScriptError\n    at <anonymous>\n    at t.onTap (pages/index/index.js:3:9)',
+    });
+
+    expect(stacktrace.stack.map(frame => frame.func)).toEqual(['t.onTap']);
+  });
+});
@@ -0,0 +1,69 @@
+import { Status } from '@sentry/types';
+
+import { EnvelopeTransport, XHRTransport } from '../../src/transports/index';
+
+const dsn = 'https://public@o1.ingest.sentry.io/1';
+const platform = (global as any).wx;
+
+/** Locks the transport as if the server responded with a rate limit for all categories. */
+function rateLimit(transport: XHRTransport): void {
+  (transport as any)._handleRateLimit({ 'retry-after': '60' });
+}
+
+describe('XHRTransport', () => {
+  test('rejects events while rate limited without counting them', async () => {
+    const transport = new XHRTransport({ dsn });
+    rateLimit(transport);
+
+    await expect(transport.sendEvent({ message: 'dropped' })).rejects.toMatchObject({ status: Status.RateLimit });
+    expect((transport as any)._outcomes).toEqual({});
+  });
+
+  test('envelope transport counts the events dropped while rate limited for its client report', async () => {
+    const transport = new EnvelopeTransport({ dsn });
+    rateLimit(transport);
+
+    await expect(transport.sendEvent({ message: 'dropped' })).rejects.toMatchObject({ status: Status.RateLimit });
+    expect((transport as any)._outcomes).toEqual({ 'ratelimit_backoff:error': 1 });
+    transport.teardown();
+  });
+
+  test('refreshes sent_at of envelopes replayed from the offline queue', () => {
+    jest.useFakeTimers();
+    const storage: { [key: string]: any } = {
+      __sentry_offline_queue__: [
+        {
+          body: '{"sent_at":"2020-01-01T00:00:00.000Z"}\n{"type":"session","length":2}\n{}',
+          category: 'session',
+          envelope: true,
+          id: 'queued',
+          timestamp: Date.now(),
+        },
+      ],
+    };
+    const sent: string[] = [];
+    const request = platform.request;
+    Object.assign(platform, {
+      getStorageSync: (key: string) => storage[key],
+      removeStorageSync: (key: string) => delete storage[key],
+      request: (options: any) => {
+        sent.push(options.data);
+        options.success({ statusCode: 200, data: '', header: {} });
+      },
+      setStorage: () => undefined,
+      setStorageSync: (key: string, data: any) => (storage[key] = data),
+    });
+
+    new XHRTransport({ dsn, offline: true });
+    jest.runAllTimers();
+    jest.useRealTimers();
+    platform.request = request;
+    ['getStorageSync', 'removeStorageSync', 'setStorage', 'setStorageSync'].forEach((api: string) => delete platform[api]);
+
+    expect(sent).toHaveLength(1);
+    const [headers, ...items] = sent[0].split('\n');
+    expect(JSON.parse(headers).sent_at).not.toBe('2020-01-01T00:00:00.000Z');
+    expect(items).toEqual(['{"type":"session","length":2}', '{}']);
+    expect(storage.__sentry_offline_queue__).toBeUndefined();
+  });
+});